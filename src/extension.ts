@@ -3,6 +3,12 @@ import { platform, arch } from "node:process";
 import { registerGrepCommands } from "./grepSearch";
 import { registerFileSearchCommands } from "./fileSearch";
 import { registerWebviewSearchCommand } from "./webviewSearch";
+import { registerWebviewFileSearchCommands } from "./webviewFileSearch";
+import { createSearchHistory, registerHistoryCommands } from "./history";
+import { registerSyntaxHighlighting } from "./syntaxHighlight";
+import { createResultsStore, registerResultsView } from "./resultsView";
+import { registerResultsEditor } from "./resultsEditor";
+import { createFrecencyStore, registerFrecencyTracking } from "./frecency";
 
 const workspaceFolders: string[] | undefined =
   vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath);
@@ -57,16 +63,37 @@ const getAutoCloseWebview = () => {
 export function activate(context: vscode.ExtensionContext) {
   const rgPath = getRgPath(context.extensionUri.fsPath);
   const fdPath = getFdPath();
+  const history = createSearchHistory(context);
+  const savedResults = createResultsStore(context);
+  const frecency = createFrecencyStore(context);
 
   try {
     // Register grep search commands
-    registerGrepCommands(context, rgPath, workspaceFolders);
+    registerGrepCommands(context, rgPath, workspaceFolders, history, savedResults);
     
     // Register file search commands
-    registerFileSearchCommands(context, fdPath, workspaceFolders);
+    registerFileSearchCommands(context, fdPath, rgPath, workspaceFolders, history, frecency);
     
     // Register webview search command
-    registerWebviewSearchCommand(context, rgPath, workspaceFolders);
+    registerWebviewSearchCommand(context, rgPath, workspaceFolders, history, savedResults);
+    
+    // Register webview file finder commands
+    registerWebviewFileSearchCommands(context, fdPath, rgPath, workspaceFolders, history, frecency);
+    
+    // Register history commands
+    registerHistoryCommands(context, history);
+    
+    // Keep preview highlighting in sync with the color theme
+    registerSyntaxHighlighting(context);
+    
+    // Saved result sets in the LiveGrep Results view
+    registerResultsView(context, rgPath, savedResults);
+    
+    // Results rendered into livegrep: documents
+    registerResultsEditor(context, rgPath);
+    
+    // Opened files feed the file finder's ranking
+    registerFrecencyTracking(context, frecency);
     
   } catch (error) {
     vscode.window.showErrorMessage(`LiveGrep activation failed: ${error}`);
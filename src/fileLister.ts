@@ -0,0 +1,79 @@
+import * as vscode from "vscode";
+import * as cp from "child_process";
+import * as path from "path";
+
+// Lists the files of a folder for the built-in fuzzy file finder, which
+// stands in for fd when it isn't installed.
+
+const MAX_BUF_SIZE = 200000 * 1024;
+// Cap for VS Code's file search, which has no streaming
+const MAX_FIND_FILES = 100000;
+
+export interface ListedFile {
+  filePath: string;
+  // Relative to the listed folder, with forward slashes on every platform
+  relativePath: string;
+}
+
+function toListedFile(dir: string, filePath: string): ListedFile {
+  return { filePath, relativePath: path.relative(dir, filePath).split(path.sep).join("/") };
+}
+
+// rg --files honours .gitignore like fd does; hidden files are included
+// and .git itself is not
+function listWithRg(rgPath: string, dir: string): Promise<ListedFile[]> {
+  return new Promise((resolve, reject) => {
+    cp.execFile(
+      rgPath,
+      ["--files", "--hidden", "--follow", "--glob", "!.git"],
+      { cwd: dir, maxBuffer: MAX_BUF_SIZE },
+      (err, stdout, stderr) => {
+        // rg exits with 2 after unreadable entries, but still lists the rest
+        if (err && !stdout) {
+          // Exit code 1 means no files at all
+          if (err.code === 1 && !stderr) {
+            resolve([]);
+            return;
+          }
+          reject(new Error(stderr.trim() || err.message));
+          return;
+        }
+        resolve(
+          stdout
+            .split(/\r?\n/)
+            .filter((line) => line !== "")
+            .map((line) => toListedFile(dir, path.resolve(dir, line)))
+        );
+      }
+    );
+  });
+}
+
+async function listWithFindFiles(dir: string): Promise<ListedFile[]> {
+  const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(dir, "**/*"), undefined, MAX_FIND_FILES);
+  return uris.map((uri) => toListedFile(dir, uri.fsPath));
+}
+
+// Every file below dir, from the bundled rg or, when that can't run,
+// from VS Code's own file search
+export async function listFiles(rgPath: string, dir: string): Promise<ListedFile[]> {
+  try {
+    return await listWithRg(rgPath, dir);
+  } catch {
+    return listWithFindFiles(dir);
+  }
+}
+
+const fdChecks = new Map<string, Promise<boolean>>();
+
+// Whether fd runs at all, checked once per path
+export function isFdAvailable(fdPath: string): Promise<boolean> {
+  let check = fdChecks.get(fdPath);
+  if (!check) {
+    check = new Promise((resolve) => {
+      cp.execFile(fdPath, ["--version"], (err) => resolve(!err));
+    });
+    fdChecks.set(fdPath, check);
+  }
+  return check;
+}
@@ -2,11 +2,33 @@ import * as vscode from "vscode";
 import * as cp from "child_process";
 import { quote } from "shell-quote";
 import * as path from "path";
+import { ListedFile, isFdAvailable, listFiles } from "./fileLister";
+import { FuzzyHighlights, fuzzyMatchPath, highlightRanges } from "./fuzzy";
+import { FrecencyStore } from "./frecency";
+import {
+  HistoryEntry,
+  SearchHistory,
+  historyItemButtons,
+  triggerHistoryButton,
+} from "./history";
+import { ResolvedScope, buttonScopeStep, registerScopedCommands, scopeButtons, stepScope } from "./scope";
 
 const MAX_BUF_SIZE = 200000 * 1024;
+// Files shown by the built-in finder; the best ones come first anyway
+const MAX_FILE_RESULTS = 500;
+// Scale of the boost frequently and recently opened files get
+const FRECENCY_BONUS = 8;
+// Recent files listed while the query is empty
+const MAX_RECENT_ITEMS = 20;
+// Wait for a pause in typing before matching, each match goes over every file
+const FIND_DELAY_MS = 50;
 
 interface QuickPickItemFile extends vscode.QuickPickItem {
   filePath: string;
+  historyEntry?: HistoryEntry;
+  // Listed from the frecency store, with a button to forget it
+  recent?: boolean;
+  highlights?: FuzzyHighlights;
 }
 
 // Helper function to detect if search term has uppercase letters (for case sensitivity)
@@ -39,10 +61,10 @@ function buildFdCommand(fdPath: string, searchTerm: string): string[] {
   return [fdPath, ...args];
 }
 
-function fetchFileItems(
+function fetchFdFiles(
   command: string,
   dir: string
-): Promise<QuickPickItemFile[]> {
+): Promise<ListedFile[]> {
   return new Promise((resolve, reject) => {
     if (dir === "") {
       reject(new Error("Can't parse dir ''"));
@@ -69,16 +91,10 @@ function fetchFileItems(
           return;
         }
         
-        const results = lines.map((filePath) => {
-          const fileName = path.basename(filePath);
-          const relativePath = path.relative(dir, filePath);
-          return {
-            label: fileName,
-            description: relativePath,
-            detail: filePath,
-            filePath: filePath,
-          };
-        });
+        const results = lines.map((filePath) => ({
+          filePath,
+          relativePath: path.relative(dir, filePath).split(path.sep).join("/"),
+        }));
         
         resolve(results);
       }
@@ -86,58 +102,89 @@ function fetchFileItems(
   });
 }
 
-function truncatePath(pwdString: string, maxLength: number = 30): string {
-  if (pwdString.length <= maxLength) {
-    return pwdString;
+// fd unless the setting says otherwise or it isn't installed
+async function useBuiltinFinder(fdPath: string): Promise<boolean> {
+  const finder = vscode.workspace.getConfiguration('livegrep').get<string>('fileFinder') || 'auto';
+  if (finder === "auto") {
+    return !(await isFdAvailable(fdPath));
   }
-  
-  // Take the last maxLength characters and prepend with "..."
-  const truncated = pwdString.slice(-maxLength);
-  return `...${truncated}`;
+  return finder === "builtin";
 }
 
-export async function searchFiles(
-  fdPath: string,
-  dirs: string[], 
-  fileScrollBack: QuickPickItemFile[],
-  title?: string, 
-  initialValue?: string
-) {
-  const quickPick = vscode.window.createQuickPick<QuickPickItemFile>();
-  quickPick.placeholder = "Please enter a file name pattern";
-  quickPick.matchOnDescription = true;
-  
-  // Set initial value if provided
-  if (initialValue) {
-    quickPick.value = initialValue;
-  }
-  
-  // Set title to show which directory is being searched
-  if (title) {
-    quickPick.title = title;
-  } else if (dirs.length === 1) {
-    quickPick.title = `Finding files in: ${truncatePath(dirs[0])}`;
-  } else {
-    quickPick.title = `Finding files in ${dirs.length} directories`;
-  }
+// Grows slowly with frecency, so a file opened a hundred times doesn't
+// beat every better match
+function frecencyBoost(scores: Map<string, number>, filePath: string): number {
+  return FRECENCY_BONUS * Math.log2(1 + (scores.get(filePath) || 0));
+}
 
-  quickPick.items = fileScrollBack;
+export interface FoundFile extends ListedFile {
+  // Characters of the relative path matched by the query, for highlighting
+  positions: number[];
+}
 
-  let quickPickValue: string;
+// Best fuzzy matches first, boosted by frecency; shorter paths break ties
+function rankFiles(query: string, files: ListedFile[], frecency: FrecencyStore): FoundFile[] {
+  const scores = frecency.scores();
+  return files
+    .flatMap((file) => {
+      const match = fuzzyMatchPath(query, file.relativePath);
+      if (!match) {
+        return [];
+      }
+      return [{ file: { ...file, positions: match.positions }, score: match.score + frecencyBoost(scores, file.filePath) }];
+    })
+    .sort((a, b) => b.score - a.score || a.file.relativePath.length - b.file.relativePath.length)
+    .map(({ file }) => file);
+}
 
-  const handleFileValueChange = async (value: string) => {
-    quickPickValue = value;
-    if (!value || value === "") {
-      return;
+// Finds files for the QuickPick and the webview finder alike
+export interface FileFinder {
+  // Whether files are matched in process rather than by fd
+  builtin: Promise<boolean>;
+  // Files matching the query, best first
+  find: (query: string) => Promise<FoundFile[]>;
+  // Starts listing the files for the built-in finder before the first query
+  prepare: () => void;
+}
+
+export function createFileFinder(
+  fdPath: string,
+  rgPath: string,
+  dirs: string[],
+  frecency: FrecencyStore,
+  // Called around listing the files, which takes a while in large folders
+  onListing: (listing: boolean) => void = () => {}
+): FileFinder {
+  // Without fd, every file is listed once and matched in process
+  const builtin = useBuiltinFinder(fdPath);
+  let listing: Promise<ListedFile[]> | undefined;
+  const listedFiles = () => {
+    if (!listing) {
+      onListing(true);
+      listing = Promise.all(
+        dirs.map((dir) =>
+          listFiles(rgPath, dir).catch((error) => {
+            vscode.window.showErrorMessage(`LiveGrep: Failed to list files in ${dir}: ${error}`);
+            return [];
+          })
+        )
+      ).then((lists) => {
+        onListing(false);
+        return lists.flat();
+      });
     }
+    return listing;
+  };
 
+  const findWithFd = async (query: string): Promise<FoundFile[]> => {
+    const scores = frecency.scores();
     // Build fd command with sensible defaults
-    const fdArgs = buildFdCommand(fdPath, value);
+    const fdArgs = buildFdCommand(fdPath, query);
     const quoteSearch = quote(fdArgs);
     
-    quickPick.items = (
+    return (
       await Promise.allSettled(
-        dirs.map((dir) => fetchFileItems(quoteSearch, dir))
+        dirs.map((dir) => fetchFdFiles(quoteSearch, dir))
       )
     )
       .map((result) => {
@@ -153,42 +200,205 @@ export async function searchFiles(
         }
         return [];
       })
-      .flat();
+      .flat()
+      // fd lists in directory order; frecent files first, stable otherwise
+      .sort((a, b) => frecencyBoost(scores, b.filePath) - frecencyBoost(scores, a.filePath))
+      // fd matched a regex; highlight what the fuzzy matcher makes of it
+      .map((file) => ({ ...file, positions: fuzzyMatchPath(query, file.relativePath)?.positions ?? [] }));
+  };
+
+  return {
+    builtin,
+    find: async (query) => {
+      if (await builtin) {
+        return rankFiles(query, await listedFiles(), frecency).slice(0, MAX_FILE_RESULTS);
+      }
+      return findWithFd(query);
+    },
+    prepare: () => {
+      builtin.then((isBuiltin) => {
+        if (isBuiltin) {
+          listedFiles();
+        }
+      });
+    },
+  };
+}
+
+// Frecent files below the searched folders, most frecent first
+export function recentFilesIn(frecency: FrecencyStore, dirs: string[]): string[] {
+  const below = (filePath: string) =>
+    dirs.some((dir) => {
+      const relative = path.relative(dir, filePath);
+      return !relative.startsWith("..") && !path.isAbsolute(relative);
+    });
+  return frecency.files().filter(below).slice(0, MAX_RECENT_ITEMS);
+}
+
+function foundFileItem(file: FoundFile, builtin: boolean): QuickPickItemFile {
+  const label = path.basename(file.filePath);
+  // The name is highlighted in the label, the folders in the description
+  const nameStart = file.relativePath.length - label.length;
+  return {
+    label,
+    description: file.relativePath,
+    highlights: {
+      label: highlightRanges(file.positions, nameStart),
+      description: highlightRanges(file.positions, 0, nameStart),
+    },
+    detail: file.filePath,
+    // Already matched; VS Code's own filter is stricter than the fuzzy one
+    alwaysShow: builtin,
+    filePath: file.filePath,
+  };
+}
+
+function recentItems(frecency: FrecencyStore, dirs: string[]): QuickPickItemFile[] {
+  return recentFilesIn(frecency, dirs).map((filePath) => ({
+    label: path.basename(filePath),
+    description: vscode.workspace.asRelativePath(filePath),
+    buttons: [{ iconPath: new vscode.ThemeIcon("close"), tooltip: "Forget recent file" }],
+    filePath,
+    recent: true,
+  }));
+}
+
+function historyItems(history: SearchHistory): QuickPickItemFile[] {
+  return history.entries("files").map((entry) => ({
+    label: entry.query,
+    description: entry.pinned ? "Pinned" : "History",
+    buttons: historyItemButtons(entry),
+    filePath: "",
+    historyEntry: entry,
+  }));
+}
+
+export async function searchFiles(
+  fdPath: string,
+  rgPath: string,
+  scope: ResolvedScope,
+  workspaceFolders: string[] | undefined,
+  history: SearchHistory,
+  frecency: FrecencyStore,
+  initialValue?: string
+) {
+  // The scope buttons change where the picker looks
+  let dirs = scope.dirs;
+  const quickPick = vscode.window.createQuickPick<QuickPickItemFile>();
+  quickPick.placeholder = "Please enter a file name pattern";
+  quickPick.matchOnDescription = true;
+  
+  // Set initial value if provided
+  if (initialValue) {
+    quickPick.value = initialValue;
+  }
+  
+  // Title shows which directory is being searched
+  quickPick.title = `Finding files in ${scope.label}`;
+  quickPick.buttons = scopeButtons();
+
+  // Recent files, then the history of file patterns
+  const emptyQueryItems = (): QuickPickItemFile[] => {
+    const recent = recentItems(frecency, dirs);
+    const queries = historyItems(history);
+    if (recent.length === 0 || queries.length === 0) {
+      return [...recent, ...queries];
+    }
+    const separator = (label: string): QuickPickItemFile => ({
+      label,
+      kind: vscode.QuickPickItemKind.Separator,
+      filePath: "",
+    });
+    return [separator("Recent files"), ...recent, separator("History"), ...queries];
+  };
+
+  quickPick.items = emptyQueryItems();
+
+  let quickPickValue: string;
+
+  const showListing = (listing: boolean) => {
+    quickPick.busy = listing;
+  };
+  let finder = createFileFinder(fdPath, rgPath, dirs, frecency, showListing);
+  let findTimer: NodeJS.Timeout | undefined;
+
+  const handleFileValueChange = (value: string) => {
+    quickPickValue = value;
+    clearTimeout(findTimer);
+    if (!value || value === "") {
+      quickPick.items = emptyQueryItems();
+      return;
+    }
+    findTimer = setTimeout(() => showFoundFiles(value), FIND_DELAY_MS);
+  };
+
+  const showFoundFiles = async (value: string) => {
+    const current = finder;
+    const files = await current.find(value);
+    // Typing went on, or the scope changed, while the files were found
+    if (value === quickPickValue && current === finder) {
+      const builtin = await current.builtin;
+      quickPick.items = files.map((file) => foundFileItem(file, builtin));
+    }
   };
 
   quickPick.onDidChangeValue(handleFileValueChange);
 
+  quickPick.onDidTriggerButton(async (button) => {
+    const step = buttonScopeStep(button);
+    if (!step) {
+      return;
+    }
+    const next = await stepScope(scope, workspaceFolders, step);
+    if (!next) {
+      vscode.window.showInformationMessage(`LiveGrep: Already searching the ${step === 1 ? "widest" : "narrowest"} scope`);
+      return;
+    }
+    scope = next;
+    dirs = next.dirs;
+    quickPick.title = `Finding files in ${scope.label}`;
+    // List the new scope and find the same query in it
+    finder = createFileFinder(fdPath, rgPath, dirs, frecency, showListing);
+    finder.prepare();
+    handleFileValueChange(quickPick.value);
+  });
+
+  quickPick.onDidTriggerItemButton(async ({ item, button }) => {
+    if (item.recent) {
+      await frecency.forget(item.filePath);
+    } else if (item.historyEntry) {
+      await triggerHistoryButton(history, "files", item.historyEntry, button);
+    } else {
+      return;
+    }
+    if (!quickPick.value) {
+      quickPick.items = emptyQueryItems();
+    }
+  });
+
   quickPick.onDidAccept(async () => {
     const item = quickPick.selectedItems[0] as QuickPickItemFile;
     if (!item) {
       return;
     }
 
-    if (item.description === "History") {
+    if (item.historyEntry) {
       quickPick.value = item.label;
       return;
     }
 
-    // Create scrollback item to store history
-    const scrollBackItem = {
-      label: quickPickValue,
-      description: "History",
-      filePath: "",
-    };
-    // Scrollback history is limited to 20 items
-    if (fileScrollBack.length > 20) {
-      // Remove oldest item
-      fileScrollBack.pop();
-    }
-    fileScrollBack.unshift(scrollBackItem);
+    await history.add("files", quickPickValue);
 
     const { filePath } = item;
+    await frecency.record(filePath);
     const doc = await vscode.workspace.openTextDocument(filePath);
     await vscode.window.showTextDocument(doc);
     quickPick.hide();
   });
 
   quickPick.show();
+  // Start listing while the query is typed
+  finder.prepare();
   
   // If initial value is provided, trigger search immediately
   if (initialValue) {
@@ -199,89 +409,14 @@ export async function searchFiles(
 export function registerFileSearchCommands(
   context: vscode.ExtensionContext,
   fdPath: string,
-  workspaceFolders: string[] | undefined
+  rgPath: string,
+  workspaceFolders: string[] | undefined,
+  history: SearchHistory,
+  frecency: FrecencyStore
 ) {
-  const fileScrollBack: QuickPickItemFile[] = [];
-
-  // File search commands using fd
-  const disposableSearchFiles = vscode.commands.registerCommand(
-    "livegrep.searchFiles",
-    async (initialValue?: string) => {
-      if (!workspaceFolders) {
-        vscode.window.showErrorMessage(
-          "Open a workspace or a folder for LiveGrep: Search Files to work"
-        );
-        return;
-      }
-      const title = initialValue ? `Finding files matching: ${initialValue}` : undefined;
-      searchFiles(fdPath, workspaceFolders, fileScrollBack, title, initialValue);
-    }
-  );
-  context.subscriptions.push(disposableSearchFiles);
-
-  const disposableSearchFilesCurrent = vscode.commands.registerCommand(
-    "livegrep.searchFilesCurrent",
-    async (initialValue?: string) => {
-      if (!vscode.window.activeTextEditor) {
-        vscode.window.showErrorMessage("No active editor.");
-        return;
-      }
-      let pwd = vscode.Uri.parse(
-        vscode.window.activeTextEditor.document.uri.path
-      );
-      let pwdString = pwd.path;
-      if (
-        (await vscode.workspace.fs.stat(pwd)).type === vscode.FileType.File
-      ) {
-        pwdString = path.dirname(pwdString);
-      }
-      const title = initialValue 
-        ? `Finding files in current directory matching: ${initialValue}` 
-        : `Finding files in current directory: ${truncatePath(pwdString)}`;
-      searchFiles(fdPath, [pwdString], fileScrollBack, title, initialValue);
-    }
+  // livegrep.searchFiles, livegrep.searchFilesCurrent and livegrep.searchFilesLevel_0 to _5
+  registerScopedCommands(context, "livegrep.searchFiles", workspaceFolders, (scope, initialValue) =>
+    searchFiles(fdPath, rgPath, scope, workspaceFolders, history, frecency, initialValue),
+    false
   );
-  context.subscriptions.push(disposableSearchFilesCurrent);
-
-  const searchFilesLevel = async (level: number, initialValue?: string) => {
-    if (!vscode.window.activeTextEditor) {
-      vscode.window.showErrorMessage("No active editor.");
-      return;
-    }
-    let pwd = vscode.Uri.parse(
-      vscode.window.activeTextEditor.document.uri.path
-    );
-    let pwdString = pwd.path;
-    if (
-      (await vscode.workspace.fs.stat(pwd)).type === vscode.FileType.File
-    ) {
-      pwdString = path.dirname(pwdString);
-    }
-    
-    // Go up 'level' number of directories
-    for (let i = 0; i < level; i++) {
-      pwdString = path.dirname(pwdString);
-    }
-    
-    // Create descriptive title based on level
-    let title: string;
-    if (initialValue) {
-      title = `Level ${level} find files matching: ${initialValue} in: ${truncatePath(pwdString)}`;
-    } else {
-      title = `Level ${level} find files in: ${truncatePath(pwdString)}`;
-    }
-    
-    searchFiles(fdPath, [pwdString], fileScrollBack, title, initialValue);
-  };
-
-  // Register file search commands for different levels
-  for (let level = 0; level <= 5; level++) {
-    const disposableFilesLevel = vscode.commands.registerCommand(
-      `livegrep.searchFilesLevel_${level}`,
-      async (initialValue?: string) => {
-        await searchFilesLevel(level, initialValue);
-      }
-    );
-    context.subscriptions.push(disposableFilesLevel);
-  }
-} 
\ No newline at end of file
+}
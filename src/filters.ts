@@ -0,0 +1,118 @@
+import * as vscode from "vscode";
+import * as cp from "child_process";
+
+// File filters of the webview search: comma separated globs and an rg type
+export interface SearchFilters {
+  include: string;
+  exclude: string;
+  type: string;
+}
+
+export interface FilterPreset extends SearchFilters {
+  name: string;
+}
+
+export const EMPTY_FILTERS: SearchFilters = {
+  include: "",
+  exclude: "",
+  type: "",
+};
+
+let rgTypesCache: Promise<string[]> | undefined;
+
+function splitGlobs(globs: string): string[] {
+  return globs
+    .split(",")
+    .map((glob) => glob.trim())
+    .filter((glob) => glob !== "");
+}
+
+// Include globs are OR'ed by rg, exclude globs are negated with "!"
+export function filterArgs(filters: SearchFilters): string[] {
+  const args: string[] = [];
+  for (const glob of splitGlobs(filters.include)) {
+    args.push("--iglob", glob);
+  }
+  for (const glob of splitGlobs(filters.exclude)) {
+    args.push("--iglob", glob.startsWith("!") ? glob : `!${glob}`);
+  }
+  if (filters.type) {
+    args.push("--type", filters.type);
+  }
+  return args;
+}
+
+export function hasFilters(filters: SearchFilters): boolean {
+  return !!(filters.include.trim() || filters.exclude.trim() || filters.type);
+}
+
+export function getFilterPresets(): FilterPreset[] {
+  const presets = vscode.workspace.getConfiguration('livegrep').get<Partial<FilterPreset>[]>('filterPresets') || [];
+  return presets
+    .filter((preset) => !!preset.name)
+    .map((preset) => ({ ...EMPTY_FILTERS, ...preset } as FilterPreset));
+}
+
+// Stores a preset in the user settings, replacing one with the same name
+export async function saveFilterPreset(preset: FilterPreset) {
+  const presets = getFilterPresets().filter((existing) => existing.name !== preset.name);
+  await vscode.workspace
+    .getConfiguration('livegrep')
+    .update('filterPresets', [...presets, preset], vscode.ConfigurationTarget.Global);
+}
+
+// File type names known to rg, from `rg --type-list`. Cached for the
+// session since the list only changes with the rg version.
+export function listRgTypes(rgPath: string): Promise<string[]> {
+  if (!rgTypesCache) {
+    rgTypesCache = new Promise((resolve) => {
+      cp.execFile(rgPath, ["--type-list"], (err, stdout) => {
+        if (err) {
+          rgTypesCache = undefined;
+          resolve([]);
+          return;
+        }
+        resolve(
+          stdout
+            .split(/\r?\n/)
+            .map((line) => line.split(":")[0].trim())
+            .filter((name) => name !== "")
+        );
+      });
+    });
+  }
+  return rgTypesCache;
+}
+
+export async function pickFilterPreset(): Promise<FilterPreset | undefined> {
+  const presets = getFilterPresets();
+  if (!presets.length) {
+    vscode.window.showInformationMessage(
+      "No LiveGrep filter presets yet. Save one from the webview search or add it to the livegrep.filterPresets setting."
+    );
+    return undefined;
+  }
+  const picked = await vscode.window.showQuickPick(
+    presets.map((preset) => ({
+      label: preset.name,
+      description: describeFilters(preset),
+      preset,
+    })),
+    { placeHolder: "Select a filter preset" }
+  );
+  return picked?.preset;
+}
+
+export function describeFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+  if (filters.include.trim()) {
+    parts.push(`include ${filters.include.trim()}`);
+  }
+  if (filters.exclude.trim()) {
+    parts.push(`exclude ${filters.exclude.trim()}`);
+  }
+  if (filters.type) {
+    parts.push(`type ${filters.type}`);
+  }
+  return parts.join(", ");
+}
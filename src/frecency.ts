@@ -0,0 +1,145 @@
+import * as vscode from "vscode";
+
+// Files ranked by how often and how recently they were opened, in the
+// spirit of Firefox's frecency and zoxide. Kept in globalState, since a
+// file path means the same thing whichever workspace opened it.
+
+interface FrecencyEntry {
+  filePath: string;
+  count: number;
+  lastOpened: number;
+}
+
+export interface FrecencyStore {
+  // Counts an open of the file
+  record: (filePath: string) => Promise<void>;
+  // Frecency of every file ever opened, by path
+  scores: () => Map<string, number>;
+  // Most frecent first
+  files: () => string[];
+  forget: (filePath: string) => Promise<void>;
+}
+
+const STORAGE_KEY = "livegrep.frecency";
+const MAX_ENTRIES = 1000;
+// Opens this close together are one open, e.g. LiveGrep opening a file
+// and onDidChangeActiveTextEditor reporting it
+const SAME_OPEN_MS = 2000;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+// Recent opens count for more; old ones fade but never quite vanish
+function recencyWeight(age: number): number {
+  if (age < HOUR) {
+    return 4;
+  }
+  if (age < DAY) {
+    return 2;
+  }
+  if (age < WEEK) {
+    return 1;
+  }
+  return 0.5;
+}
+
+function frecency(entry: FrecencyEntry, now: number): number {
+  return entry.count * recencyWeight(now - entry.lastOpened);
+}
+
+export function createFrecencyStore(context: vscode.ExtensionContext): FrecencyStore {
+  const entries = () => context.globalState.get<FrecencyEntry[]>(STORAGE_KEY) || [];
+
+  const save = async (list: FrecencyEntry[]) => {
+    const now = Date.now();
+    // Least frecent files go first once the store is full
+    const kept = list
+      .sort((a, b) => frecency(b, now) - frecency(a, now))
+      .slice(0, MAX_ENTRIES);
+    await context.globalState.update(STORAGE_KEY, kept);
+  };
+
+  return {
+    record: async (filePath) => {
+      const now = Date.now();
+      const list = entries();
+      const existing = list.find((entry) => entry.filePath === filePath);
+      if (existing && now - existing.lastOpened < SAME_OPEN_MS) {
+        return;
+      }
+      const rest = list.filter((entry) => entry.filePath !== filePath);
+      await save([{ filePath, count: (existing?.count ?? 0) + 1, lastOpened: now }, ...rest]);
+    },
+    scores: () => {
+      const now = Date.now();
+      return new Map(entries().map((entry): [string, number] => [entry.filePath, frecency(entry, now)]));
+    },
+    files: () => {
+      const now = Date.now();
+      return [...entries()]
+        .sort((a, b) => frecency(b, now) - frecency(a, now) || b.lastOpened - a.lastOpened)
+        .map((entry) => entry.filePath);
+    },
+    forget: async (filePath) => {
+      await save(entries().filter((entry) => entry.filePath !== filePath));
+    },
+  };
+}
+
+// The file the QuickPick preview shows: looking at a result isn't opening it
+let previewedFile: string | undefined;
+let trackedStore: FrecencyStore | undefined;
+
+export function setPreviewedFile(filePath: string) {
+  previewedFile = filePath;
+}
+
+// Ends the QuickPick preview. When the previewed file is the one opened, its
+// editor was active already, so the open is counted here.
+export function endPreview(openedFile?: string) {
+  if (openedFile && openedFile === previewedFile) {
+    trackedStore?.record(openedFile);
+  }
+  previewedFile = undefined;
+}
+
+// Counts the files that become the active editor. Documents LiveGrep loads
+// for previews and replaces never do, and the QuickPick preview is skipped.
+export function registerFrecencyTracking(context: vscode.ExtensionContext, frecency: FrecencyStore) {
+  trackedStore = frecency;
+  context.subscriptions.push(
+    vscode.window.onDidChangeActiveTextEditor((editor) => {
+      const uri = editor?.document.uri;
+      if (uri?.scheme === "file" && uri.fsPath !== previewedFile) {
+        frecency.record(uri.fsPath);
+      }
+    })
+  );
+
+  const disposableForget = vscode.commands.registerCommand(
+    "livegrep.forgetRecentFile",
+    async (uri?: vscode.Uri) => {
+      if (uri instanceof vscode.Uri) {
+        await frecency.forget(uri.fsPath);
+        return;
+      }
+      const files = frecency.files();
+      if (files.length === 0) {
+        vscode.window.showInformationMessage("LiveGrep: No recent files");
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        files.map((filePath) => ({
+          label: vscode.workspace.asRelativePath(filePath),
+          filePath,
+        })),
+        { canPickMany: true, placeHolder: "Recent files to forget" }
+      );
+      for (const item of picked || []) {
+        await frecency.forget(item.filePath);
+      }
+    }
+  );
+  context.subscriptions.push(disposableForget);
+}
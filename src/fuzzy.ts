@@ -0,0 +1,281 @@
+// In-memory fuzzy matching in the style of fzf: characters of the pattern
+// must appear in order, and matches on word boundaries, camelCase humps
+// and consecutive runs score higher than scattered ones.
+
+export interface FuzzyMatch {
+  score: number;
+  // Indices of the matched characters in the text, ascending
+  positions: number[];
+}
+
+// Scores from fzf's algorithm
+const SCORE_MATCH = 16;
+const SCORE_GAP_START = -3;
+const SCORE_GAP_EXTENSION = -1;
+const BONUS_BOUNDARY = SCORE_MATCH / 2;
+const BONUS_BOUNDARY_WHITE = BONUS_BOUNDARY + 2;
+const BONUS_BOUNDARY_DELIMITER = BONUS_BOUNDARY + 1;
+const BONUS_NON_WORD = SCORE_MATCH / 2;
+const BONUS_CAMEL = BONUS_BOUNDARY + SCORE_GAP_EXTENSION;
+const BONUS_CONSECUTIVE = -(SCORE_GAP_START + SCORE_GAP_EXTENSION);
+const BONUS_FIRST_CHAR_MULTIPLIER = 2;
+
+// Character classes; the ones after CLASS_DELIMITER are word characters
+type CharClass = number;
+const CLASS_WHITE = 0;
+const CLASS_NON_WORD = 1;
+const CLASS_DELIMITER = 2;
+const CLASS_LOWER = 3;
+const CLASS_UPPER = 4;
+const CLASS_LETTER = 5;
+const CLASS_NUMBER = 6;
+
+function charClass(ch: string): CharClass {
+  if (ch >= "a" && ch <= "z") {
+    return CLASS_LOWER;
+  }
+  if (ch >= "A" && ch <= "Z") {
+    return CLASS_UPPER;
+  }
+  if (ch >= "0" && ch <= "9") {
+    return CLASS_NUMBER;
+  }
+  if (/\s/.test(ch)) {
+    return CLASS_WHITE;
+  }
+  if ("/\\,:;|".includes(ch)) {
+    return CLASS_DELIMITER;
+  }
+  return ch.toLowerCase() !== ch.toUpperCase() ? CLASS_LETTER : CLASS_NON_WORD;
+}
+
+function boundaryBonus(previous: CharClass, current: CharClass): number {
+  if (current > CLASS_DELIMITER) {
+    if (previous === CLASS_WHITE) {
+      return BONUS_BOUNDARY_WHITE;
+    }
+    if (previous === CLASS_DELIMITER) {
+      return BONUS_BOUNDARY_DELIMITER;
+    }
+    if (previous === CLASS_NON_WORD) {
+      return BONUS_BOUNDARY;
+    }
+  }
+  if (
+    (previous === CLASS_LOWER && current === CLASS_UPPER) ||
+    (previous !== CLASS_NUMBER && current === CLASS_NUMBER)
+  ) {
+    return BONUS_CAMEL;
+  }
+  if (current === CLASS_NON_WORD || current === CLASS_DELIMITER) {
+    return BONUS_NON_WORD;
+  }
+  if (current === CLASS_WHITE) {
+    return BONUS_BOUNDARY_WHITE;
+  }
+  return 0;
+}
+
+// Best alignment of one pattern in the text, or undefined when the text
+// doesn't contain the pattern's characters in order. Smart case: the
+// match ignores case unless the pattern has an uppercase letter.
+export function fuzzyMatch(pattern: string, text: string): FuzzyMatch | undefined {
+  if (pattern === "") {
+    return { score: 0, positions: [] };
+  }
+  const caseSensitive = pattern !== pattern.toLowerCase();
+  const p = caseSensitive ? pattern : pattern.toLowerCase();
+  const t = caseSensitive ? text : text.toLowerCase();
+  const m = p.length;
+  const n = t.length;
+
+  // Cheap check first: is the pattern a subsequence at all, and where can
+  // its first and last characters go
+  let first = -1;
+  let last = -1;
+  for (let i = 0, j = 0; j < n && i < m; j++) {
+    if (t[j] === p[i]) {
+      if (i === 0) {
+        first = j;
+      }
+      i++;
+      if (i === m) {
+        last = j;
+      }
+    }
+  }
+  if (last === -1) {
+    return undefined;
+  }
+  for (let j = n - 1; j > last; j--) {
+    if (t[j] === p[m - 1]) {
+      last = j;
+      break;
+    }
+  }
+
+  const bonus: number[] = [];
+  let previous = first > 0 ? charClass(text[first - 1]) : CLASS_WHITE;
+  for (let j = first; j <= last; j++) {
+    const current = charClass(text[j]);
+    bonus.push(boundaryBonus(previous, current));
+    previous = current;
+  }
+
+  // score[i][j]: best score with pattern char i matched at text char
+  // first + j. run[i][j] is the bonus of the consecutive run it ends,
+  // from[i][j] where pattern char i - 1 was matched.
+  const width = last - first + 1;
+  const none = -Infinity;
+  const score: number[][] = [];
+  const run: number[][] = [];
+  const from: number[][] = [];
+  for (let i = 0; i < m; i++) {
+    const row: number[] = new Array(width).fill(none);
+    const runRow: number[] = new Array(width).fill(0);
+    const fromRow: number[] = new Array(width).fill(-1);
+    // Best previous cell to jump from with a gap, and its gap penalty so far
+    let gapScore = none;
+    let gapFrom = -1;
+    for (let j = 0; j < width; j++) {
+      if (i > 0 && j >= 2) {
+        // Extend the running gap, or start one after the cell two back
+        const started = score[i - 1][j - 2] + SCORE_GAP_START;
+        gapScore += SCORE_GAP_EXTENSION;
+        if (started >= gapScore) {
+          gapScore = started;
+          gapFrom = j - 2;
+        }
+      }
+      if (t[first + j] !== p[i]) {
+        continue;
+      }
+      if (i === 0) {
+        row[j] = SCORE_MATCH + bonus[j] * BONUS_FIRST_CHAR_MULTIPLIER;
+        runRow[j] = bonus[j];
+        continue;
+      }
+      if (j > 0 && score[i - 1][j - 1] > none) {
+        // Consecutive: the run keeps the bonus of its start if larger
+        const runBonus = Math.max(run[i - 1][j - 1], bonus[j], BONUS_CONSECUTIVE);
+        row[j] = score[i - 1][j - 1] + SCORE_MATCH + runBonus;
+        runRow[j] = runBonus;
+        fromRow[j] = j - 1;
+      }
+      if (gapScore > none && gapScore + SCORE_MATCH + bonus[j] > row[j]) {
+        row[j] = gapScore + SCORE_MATCH + bonus[j];
+        runRow[j] = bonus[j];
+        fromRow[j] = gapFrom;
+      }
+    }
+    score.push(row);
+    run.push(runRow);
+    from.push(fromRow);
+  }
+
+  let end = -1;
+  for (let j = 0; j < width; j++) {
+    if (score[m - 1][j] > none && (end === -1 || score[m - 1][j] > score[m - 1][end])) {
+      end = j;
+    }
+  }
+  if (end === -1) {
+    return undefined;
+  }
+  const positions: number[] = [];
+  for (let i = m - 1, j = end; i >= 0; i--) {
+    positions.unshift(first + j);
+    j = from[i][j];
+  }
+  return { score: score[m - 1][end], positions };
+}
+
+// Every whitespace separated term must match, as in fzf's extended search.
+// Scores add up and positions are merged.
+export function fuzzyMatchTerms(query: string, text: string): FuzzyMatch | undefined {
+  let score = 0;
+  const positions = new Set<number>();
+  for (const term of query.split(/\s+/).filter((term) => term !== "")) {
+    const match = fuzzyMatch(term, text);
+    if (!match) {
+      return undefined;
+    }
+    score += match.score;
+    match.positions.forEach((position) => positions.add(position));
+  }
+  return { score, positions: [...positions].sort((a, b) => a - b) };
+}
+
+export interface FuzzyResultMatch {
+  score: number;
+  pathPositions: number[];
+  textPositions: number[];
+}
+
+// Refines a grep hit by its path and line text, as one "path text" string
+// so a term can span both. Positions come back for each part.
+export function fuzzyMatchResult(query: string, path: string, text: string): FuzzyResultMatch | undefined {
+  const match = fuzzyMatchTerms(query, `${path} ${text}`);
+  if (!match) {
+    return undefined;
+  }
+  const offset = path.length + 1;
+  return {
+    score: match.score,
+    pathPositions: match.positions.filter((position) => position < path.length),
+    textPositions: match.positions.filter((position) => position >= offset).map((position) => position - offset),
+  };
+}
+
+// A term found in the file name outranks the same term spread over the
+// directories, so "button" puts src/Button.tsx before button/src/index.ts
+const BONUS_FILE_NAME = SCORE_MATCH;
+
+// Ranks a file by its path relative to the searched folder. Each term
+// matches within the file name when that scores better, otherwise
+// anywhere in the path, where separators count as word boundaries.
+export function fuzzyMatchPath(query: string, filePath: string): FuzzyMatch | undefined {
+  const nameStart = Math.max(filePath.lastIndexOf("/"), filePath.lastIndexOf("\\")) + 1;
+  const name = filePath.slice(nameStart);
+  let score = 0;
+  const positions = new Set<number>();
+  for (const term of query.split(/\s+/).filter((term) => term !== "")) {
+    const inPath = fuzzyMatch(term, filePath);
+    if (!inPath) {
+      return undefined;
+    }
+    const inName = fuzzyMatch(term, name);
+    if (inName && inName.score + BONUS_FILE_NAME >= inPath.score) {
+      score += inName.score + BONUS_FILE_NAME;
+      inName.positions.forEach((position) => positions.add(nameStart + position));
+    } else {
+      score += inPath.score;
+      inPath.positions.forEach((position) => positions.add(position));
+    }
+  }
+  return { score, positions: [...positions].sort((a, b) => a - b) };
+}
+
+// Matched characters of a picker item's parts as [start, end) ranges
+export interface FuzzyHighlights {
+  label?: [number, number][];
+  description?: [number, number][];
+  detail?: [number, number][];
+}
+
+// Runs of consecutive positions within start..end, relative to start
+export function highlightRanges(positions: number[], start = 0, end = Infinity): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (const position of positions) {
+    if (position < start || position >= end) {
+      continue;
+    }
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === position - start) {
+      last[1]++;
+    } else {
+      ranges.push([position - start, position - start + 1]);
+    }
+  }
+  return ranges;
+}
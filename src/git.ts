@@ -0,0 +1,120 @@
+import * as vscode from "vscode";
+
+// The parts of the built-in git extension's API (extensions/git/src/api/git.d.ts)
+// that LiveGrep uses. Declared here since the extension ships no typings.
+
+interface GitChange {
+  readonly uri: vscode.Uri;
+}
+
+interface GitRef {
+  readonly name?: string;
+  readonly remote?: string;
+}
+
+interface GitRepositoryState {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  readonly HEAD: GitRef | undefined;
+  readonly workingTreeChanges: GitChange[];
+  readonly indexChanges: GitChange[];
+  readonly untrackedChanges: GitChange[];
+}
+
+export interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly state: GitRepositoryState;
+  getBranches(query: { remote?: boolean }): Promise<GitRef[]>;
+  getMergeBase(ref1: string, ref2: string): Promise<string | undefined>;
+  diffWith(ref: string): Promise<GitChange[]>;
+}
+
+interface GitAPI {
+  readonly repositories: GitRepository[];
+  getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitExtension {
+  readonly enabled: boolean;
+  getAPI(version: 1): GitAPI;
+}
+
+// The git API, or undefined with the reason shown when git is disabled
+async function getGitAPI(): Promise<GitAPI | undefined> {
+  const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
+  const git = extension && (extension.isActive ? extension.exports : await extension.activate());
+  if (!git || !git.enabled) {
+    vscode.window.showErrorMessage("LiveGrep: The built-in git extension is disabled");
+    return undefined;
+  }
+  return git.getAPI(1);
+}
+
+// Repository of the file, the only one open, or one picked from a list
+async function pickRepository(api: GitAPI, anchor: string | undefined): Promise<GitRepository | undefined> {
+  const own = anchor ? api.getRepository(vscode.Uri.file(anchor)) : null;
+  if (own) {
+    return own;
+  }
+  if (api.repositories.length <= 1) {
+    if (api.repositories.length === 0) {
+      vscode.window.showErrorMessage("LiveGrep: No git repository is open");
+    }
+    return api.repositories[0];
+  }
+  const picked = await vscode.window.showQuickPick(
+    api.repositories.map((repository) => ({
+      label: vscode.workspace.asRelativePath(repository.rootUri, true),
+      repository,
+    })),
+    { placeHolder: "Repository to compare" }
+  );
+  return picked?.repository;
+}
+
+// Files modified, staged or untracked in every open repository
+export async function gitChangedFiles(): Promise<string[] | undefined> {
+  const api = await getGitAPI();
+  if (!api) {
+    return undefined;
+  }
+  return api.repositories.flatMap((repository) =>
+    [
+      ...repository.state.indexChanges,
+      ...repository.state.workingTreeChanges,
+      ...repository.state.untrackedChanges,
+    ].map((change) => change.uri.fsPath)
+  );
+}
+
+// Files changed since the branch left `base`, committed or not. The base
+// branch is picked from a list when not given.
+export async function branchChangedFiles(
+  base: string | undefined,
+  anchor: string | undefined
+): Promise<{ base: string; files: string[] } | undefined> {
+  const api = await getGitAPI();
+  const repository = api && (await pickRepository(api, anchor));
+  if (!repository) {
+    return undefined;
+  }
+  if (!base) {
+    const head = repository.state.HEAD?.name;
+    const branches = (await repository.getBranches({ remote: true }))
+      .map((ref) => ref.name)
+      .filter((name): name is string => !!name && name !== head);
+    base = await vscode.window.showQuickPick(branches, { placeHolder: "Base branch to compare with" });
+    if (!base) {
+      return undefined;
+    }
+  }
+  try {
+    // Changes made on the base branch since aren't ours
+    const mergeBase = (await repository.getMergeBase(base, "HEAD")) || base;
+    const changes = await repository.diffWith(mergeBase);
+    const untracked = repository.state.untrackedChanges;
+    return { base, files: [...changes, ...untracked].map((change) => change.uri.fsPath) };
+  } catch (error) {
+    vscode.window.showErrorMessage(`LiveGrep: Can't compare with ${base}: ${error}`);
+    return undefined;
+  }
+}
@@ -1,192 +1,531 @@
 import * as vscode from "vscode";
-import * as cp from "child_process";
-import { quote } from "shell-quote";
-import * as path from "path";
+import { RgMatch, byteOffsetToCharIndex, createSearchSession } from "./rgSearch";
+import { parseQuery, quoteLiteral, splitRefinement, toRgArgs } from "./queryParser";
+import { FuzzyHighlights, FuzzyResultMatch, fuzzyMatchResult, highlightRanges } from "./fuzzy";
+import {
+  buttonToggle,
+  describeToggles,
+  loadToggles,
+  saveToggles,
+  toggleArgs,
+  toggleButtons,
+  toQueryDefaults,
+} from "./searchToggles";
+import {
+  HistoryEntry,
+  SearchHistory,
+  historyItemButtons,
+  triggerHistoryButton,
+} from "./history";
+import { buttonOpenAction, keepsPickerOpen, openActionButtons, openMatch } from "./openFile";
+import { ResultsStore, exportResults, toSavedResult } from "./resultsView";
+import { openResultsEditor } from "./resultsEditor";
+import { endPreview, setPreviewedFile } from "./frecency";
+import {
+  ResolvedScope,
+  buttonScopeStep,
+  registerFileListCommands,
+  registerScopedCommands,
+  resolveScope,
+  scopeButtons,
+  stepScope,
+} from "./scope";
 
 const MAX_DESC_LENGTH = 1000;
-const MAX_BUF_SIZE = 200000 * 1024;
+// How often streamed rg results are pushed into the QuickPick
+const STREAM_BATCH_MS = 100;
+// Delay before previewing the active item, so scrolling fast doesn't open every file
+const PREVIEW_DELAY_MS = 80;
 
 interface QuickPickItemWithLine extends vscode.QuickPickItem {
   num: number;
+  match?: RgMatch;
+  truncated?: boolean;
+  historyEntry?: HistoryEntry;
+  highlights?: FuzzyHighlights;
 }
 
-// Helper function to detect if search term has uppercase letters (for case sensitivity)
-function hasUpperCase(str: string): boolean {
-  return /[A-Z]/.test(str);
+const getMaxResults = () => {
+  return vscode.workspace.getConfiguration('livegrep').get<number>('maxResults') || 2000;
+};
+
+const getQuickPickPreview = () => {
+  return vscode.workspace.getConfiguration('livegrep').get<boolean>('quickPickPreview') ?? false;
+};
+
+// Document ranges of rg's submatches on the matched line
+function matchRanges(match: RgMatch): vscode.Range[] {
+  const line = match.lineNumber - 1;
+  return match.submatches.map(
+    (submatch) =>
+      new vscode.Range(
+        line,
+        byteOffsetToCharIndex(match.text, submatch.start),
+        line,
+        byteOffsetToCharIndex(match.text, submatch.end)
+      )
+  );
 }
 
-function fetchItems(
-  command: string,
-  dir: string
-): Promise<QuickPickItemWithLine[]> {
-  return new Promise((resolve, reject) => {
-    if (dir === "") {
-      reject(new Error("Can't parse dir ''"));
-    }
-    cp.exec(
-      command,
-      { cwd: dir, maxBuffer: MAX_BUF_SIZE },
-      (err, stdout, stderr) => {
-        if (stderr) {
-          reject(new Error(stderr));
-        }
-        const lines = stdout.split(/\n/).filter((l) => l !== "");
-        if (!lines.length) {
-          resolve([]);
-        }
-        resolve(
-          lines
-            .map((line) => {
-              const [fullPath, num, ...desc] = line.split(":");
-              const description = desc.join(":").trim();
-              return {
-                fullPath,
-                num: Number(num),
-                line,
-                description,
-              };
-            })
-            .filter(
-              ({ description, num }) =>
-                description.length < MAX_DESC_LENGTH && !!num
-            )
-            .map(({ fullPath, num, line, description }) => {
-              const path = fullPath.split("/");
-              return {
-                label: `${path[path.length - 1]} : ${num}`,
-                description,
-                detail: dir + fullPath.substring(1, fullPath.length),
-                num,
-              };
-            })
-        );
-      }
-    );
+function matchSelection(match: RgMatch): vscode.Selection {
+  const position = new vscode.Position(match.lineNumber - 1, match.column - 1);
+  return new vscode.Selection(position, position);
+}
+
+function createMatchDecoration(): vscode.TextEditorDecorationType {
+  return vscode.window.createTextEditorDecorationType({
+    backgroundColor: new vscode.ThemeColor("editor.findMatchBackground"),
+    borderColor: new vscode.ThemeColor("editor.findMatchBorder"),
+    borderStyle: "solid",
+    borderWidth: "1px",
   });
 }
 
-function truncatePath(pwdString: string, maxLength: number = 30): string {
-  if (pwdString.length <= maxLength) {
-    return pwdString;
+// Title bar button switching the picker to checking results for the
+// "LiveGrep Results" view
+function selectManyButton(selecting: boolean): vscode.QuickInputButton {
+  return {
+    iconPath: new vscode.ThemeIcon(selecting ? "check-all" : "checklist"),
+    tooltip: selecting ? "Stop Selecting Results" : "Select Results to Save in LiveGrep Results",
+  };
+}
+
+const exportButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("export"),
+  tooltip: "Export Results",
+};
+
+const resultsEditorButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("list-flat"),
+  tooltip: "Open Results in Editor",
+};
+
+function truncatedItem(maxResults: number): QuickPickItemWithLine {
+  return {
+    label: "$(warning) More results truncated",
+    description: `Showing the first ${maxResults} matches, refine the search to see more`,
+    alwaysShow: true,
+    num: 0,
+    truncated: true,
+  };
+}
+
+function toQuickPickItem(match: RgMatch, buttons: vscode.QuickInputButton[]): QuickPickItemWithLine | undefined {
+  const description = match.text.trim();
+  if (description.length >= MAX_DESC_LENGTH) {
+    return undefined;
   }
-  
-  // Take the last maxLength characters and prepend with "..."
-  const truncated = pwdString.slice(-maxLength);
-  return `...${truncated}`;
+  return {
+    label: `${match.fileName} : ${match.lineNumber}`,
+    description,
+    detail: match.filePath,
+    // rg already matched it; VS Code's own filter would compare the item
+    // with the whole query, regex and refinement included
+    alwaysShow: true,
+    buttons,
+    num: match.lineNumber,
+    match,
+  };
+}
+
+// Where the refinement matched: the file name in the label, the line in
+// the description and the whole path in the detail
+function refinementHighlights(match: RgMatch, refined: FuzzyResultMatch): FuzzyHighlights {
+  const nameStart = match.relativePath.length - match.fileName.length;
+  const dirLength = match.filePath.length - match.relativePath.length;
+  return {
+    label: highlightRanges(refined.pathPositions, nameStart),
+    description: highlightRanges(refined.textPositions),
+    detail: highlightRanges(refined.pathPositions.map((position) => position + dirLength)),
+  };
+}
+
+function historyItems(history: SearchHistory): QuickPickItemWithLine[] {
+  return history.entries("grep").map((entry) => ({
+    label: entry.query,
+    description: entry.pinned ? "Pinned" : "History",
+    buttons: historyItemButtons(entry),
+    num: 0,
+    historyEntry: entry,
+  }));
 }
 
 export async function searchDirs(
+  context: vscode.ExtensionContext,
   rgPath: string,
-  dirs: string[], 
-  scrollBack: QuickPickItemWithLine[],
-  title?: string, 
+  scope: ResolvedScope,
+  workspaceFolders: string[] | undefined,
+  history: SearchHistory,
+  savedResults: ResultsStore,
   initialValue?: string
 ) {
+  // The scope buttons change where the picker searches
+  let dirs = scope.dirs;
   const quickPick = vscode.window.createQuickPick();
   quickPick.placeholder = "Please enter a search term";
   quickPick.matchOnDescription = true;
+  // Results stream in batches, don't jump back to the top on every batch
+  quickPick.keepScrollPosition = true;
   
   // Set initial value if provided
   if (initialValue) {
     quickPick.value = initialValue;
   }
   
-  // Set title to show which directory is being searched
-  if (title) {
-    quickPick.title = title;
-  } else if (dirs.length === 1) {
-    quickPick.title = `Searching in: ${dirs[0]}`;
-  } else {
-    quickPick.title = `Searching in ${dirs.length} directories`;
-  }
-
-  const isOption = (s: string) => /^--?[a-z]+/.test(s);
-  const isWordQuoted = (s: string) => /^".*"/.test(s);
+  let toggles = loadToggles(context, "quickPick");
+  let selectButton = selectManyButton(false);
+  const showToggles = () => {
+    // Title shows which directory is being searched
+    const baseTitle = `Grep in ${scope.label}`;
+    const active = describeToggles(toggles);
+    quickPick.title = active ? `${baseTitle} [${active}]` : baseTitle;
+    selectButton = selectManyButton(quickPick.canSelectMany);
+    quickPick.buttons = [...toggleButtons(toggles), ...scopeButtons(), selectButton, exportButton, resultsEditorButton];
+  };
+  showToggles();
 
-  quickPick.items = scrollBack;
+  quickPick.items = historyItems(history);
 
   let quickPickValue: string;
+  // rg query and arguments of the results shown, kept with results sent
+  // to the view or the editor
+  let resultsQuery = "";
+  let resultsArgs: string[] = [];
+  // Whether rg already ran with resultsArgs, so only the refinement changed
+  let searched = false;
+  // Everything rg found, and the fuzzy refinement typed after the separator
+  let results: QuickPickItemWithLine[] = [];
+  let truncated = false;
+  let refineQuery = "";
+  const session = createSearchSession();
+
+  // Hits matching the refinement, best first, ties in rg's order
+  const refinedResults = () => {
+    if (!refineQuery) {
+      results.forEach((item) => (item.highlights = undefined));
+      return results;
+    }
+    return results
+      .flatMap((item) => {
+        const match = fuzzyMatchResult(refineQuery, item.match!.relativePath, item.description || "");
+        if (!match) {
+          return [];
+        }
+        item.highlights = refinementHighlights(item.match!, match);
+        return [{ item, score: match.score }];
+      })
+      .sort((a, b) => b.score - a.score)
+      .map(({ item }) => item);
+  };
 
-  const handleValueChange = async (value: string) => {
+  // Push the results gathered so far, keeping the user's active item
+  const showResults = () => {
+    const shown = refinedResults();
+    const active = quickPick.activeItems[0];
+    const selected = quickPick.selectedItems;
+    quickPick.items = truncated ? [...shown, truncatedItem(getMaxResults())] : [...shown];
+    if (active && shown.includes(active as QuickPickItemWithLine)) {
+      quickPick.activeItems = [active];
+    }
+    if (quickPick.canSelectMany) {
+      quickPick.selectedItems = selected.filter((item) => shown.includes(item as QuickPickItemWithLine));
+    }
+  };
+
+  const handleValueChange = (value: string) => {
     quickPickValue = value;
     if (!value || value === "") {
+      session.cancel();
+      searched = false;
+      quickPick.busy = false;
+      quickPick.items = historyItems(history);
       return;
     }
-    let query = value.split(/\s/).reduce((acc, curr, index) => {
-      if (index === 0 || isOption(curr) || isOption(acc[acc.length - 1])) {
-        if (!isWordQuoted(curr) && !isOption(curr)) {
-          acc.push("-i", curr); // add case insensitive flag
-          return acc;
-        }
-        acc.push(curr.replace(/"/g, "")); // remove quotes
-        return acc;
+    const { search, refine } = splitRefinement(value);
+    const parsed = parseQuery(search, toQueryDefaults(toggles));
+    if (parsed.pattern === "") {
+      // Only options or filters so far: drop the old results, wait for a pattern
+      session.cancel();
+      searched = false;
+      results = [];
+      truncated = false;
+      quickPick.busy = false;
+      quickPick.items = [];
+      return;
+    }
+
+    const args = [...toggleArgs(toggles), ...toRgArgs(parsed, scope.paths)];
+    refineQuery = refine;
+    if (searched && args.join("\0") === resultsArgs.join("\0")) {
+      // Only the refinement changed: filter what rg found, no new search
+      showResults();
+      return;
+    }
+
+    const maxResults = getMaxResults();
+    results = [];
+    truncated = false;
+    searched = true;
+    let generation = 0;
+    let flushTimer: NodeJS.Timeout | undefined;
+
+    const flush = () => {
+      flushTimer = undefined;
+      if (session.isCurrent(generation)) {
+        showResults();
       }
-      acc[acc.length - 1] = acc[acc.length - 1] + ` ${curr}`;
-      return acc;
-    }, [] as string[]);
-
-    const quoteSearch = quote([rgPath, "-n", ...query, "."]);
-    quickPick.items = (
-      await Promise.allSettled(
-        dirs.map((dir) => fetchItems(quoteSearch, dir))
-      )
-    )
-      .map((result) => {
-        if (result.status === "rejected") {
-          vscode.window.showErrorMessage(result.reason);
+    };
+
+    const finish = () => {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+      }
+      flush();
+      quickPick.busy = false;
+    };
+
+    quickPick.busy = true;
+    resultsQuery = search.trim();
+    resultsArgs = args;
+    const buttons = openActionButtons();
+    generation = session.run(rgPath, dirs, args, {
+      onMatch: (match) => {
+        const item = toQuickPickItem(match, buttons);
+        if (!item) {
+          return;
         }
-        return result;
-      })
-      .filter((result) => result.status === "fulfilled")
-      .map((result) => {
-        if (result.status === "fulfilled") {
-          return result.value;
+        results.push(item);
+        if (results.length >= maxResults) {
+          // Show what we have and stop rg, nothing more will be displayed
+          truncated = true;
+          finish();
+          session.cancel();
+          return;
         }
-        return [];
-      })
-      .flat();
+        if (!flushTimer) {
+          flushTimer = setTimeout(flush, STREAM_BATCH_MS);
+        }
+      },
+      onComplete: finish,
+      onError: (error) => {
+        vscode.window.showErrorMessage(error);
+      },
+    });
   };
 
   quickPick.onDidChangeValue(handleValueChange);
 
+  // Live preview of the active item in a preview tab, restoring the
+  // editor that was active before if the picker is cancelled
+  const previewEnabled = getQuickPickPreview();
+  const previousEditor = vscode.window.activeTextEditor;
+  const previousState = previousEditor && {
+    document: previousEditor.document,
+    viewColumn: previousEditor.viewColumn,
+    selection: previousEditor.selection,
+    visibleRange: previousEditor.visibleRanges[0],
+  };
+  const openTabs = new Set(
+    vscode.window.tabGroups.all.flatMap((group) =>
+      group.tabs.flatMap((tab) => (tab.input instanceof vscode.TabInputText ? [tab.input.uri.toString()] : []))
+    )
+  );
+  const matchDecoration = createMatchDecoration();
+  let previewTimer: NodeJS.Timeout | undefined;
+  let previewedUri: vscode.Uri | undefined;
+  let accepted = false;
+  // The file opened from the picker, which may be the previewed one
+  let openedFile: string | undefined;
+
+  const previewItem = async (item: QuickPickItemWithLine) => {
+    const match = item.match;
+    if (!match) {
+      return;
+    }
+    try {
+      const doc = await vscode.workspace.openTextDocument(match.filePath);
+      const editor = await vscode.window.showTextDocument(doc, {
+        viewColumn: previousState?.viewColumn ?? vscode.ViewColumn.Active,
+        preserveFocus: true,
+        preview: true,
+        selection: matchSelection(match),
+      });
+      previewedUri = doc.uri;
+      setPreviewedFile(doc.uri.fsPath);
+      editor.setDecorations(matchDecoration, matchRanges(match));
+      editor.revealRange(
+        new vscode.Range(match.lineNumber - 1, 0, match.lineNumber - 1, 0),
+        vscode.TextEditorRevealType.InCenterIfOutsideViewport
+      );
+    } catch {
+      // Files that can't be opened just aren't previewed
+    }
+  };
+
+  const restorePreviousEditor = async () => {
+    if (!previewedUri) {
+      return;
+    }
+    // Close the preview tab unless the file was already open
+    if (!openTabs.has(previewedUri.toString())) {
+      const previewTabs = vscode.window.tabGroups.all.flatMap((group) =>
+        group.tabs.filter(
+          (tab) =>
+            tab.isPreview &&
+            tab.input instanceof vscode.TabInputText &&
+            tab.input.uri.toString() === previewedUri!.toString()
+        )
+      );
+      await vscode.window.tabGroups.close(previewTabs);
+    }
+    if (previousState && !previousState.document.isClosed) {
+      // Going back to where the picker started isn't opening the file
+      setPreviewedFile(previousState.document.uri.fsPath);
+      const editor = await vscode.window.showTextDocument(previousState.document, {
+        viewColumn: previousState.viewColumn,
+        selection: previousState.selection,
+      });
+      if (previousState.visibleRange) {
+        editor.revealRange(previousState.visibleRange, vscode.TextEditorRevealType.AtTop);
+      }
+    }
+  };
+
+  if (previewEnabled) {
+    quickPick.onDidChangeActive((items) => {
+      clearTimeout(previewTimer);
+      const item = items[0] as QuickPickItemWithLine | undefined;
+      if (item?.match) {
+        previewTimer = setTimeout(() => previewItem(item), PREVIEW_DELAY_MS);
+      }
+    });
+  }
+
+  // Matches of the checked items, or of every item when none are checked
+  const pickedMatches = () => {
+    const checked = quickPick.canSelectMany ? quickPick.selectedItems : [];
+    return (checked.length ? checked : quickPick.items).flatMap((item) => {
+      const match = (item as QuickPickItemWithLine).match;
+      return match ? [match] : [];
+    });
+  };
+
+  quickPick.onDidTriggerButton(async (button) => {
+    if (button === resultsEditorButton) {
+      if (!resultsArgs.length) {
+        return;
+      }
+      await history.add("grep", quickPickValue);
+      quickPick.hide();
+      await openResultsEditor(resultsQuery, dirs, resultsArgs);
+      return;
+    }
+    if (button === exportButton) {
+      const matches = pickedMatches();
+      quickPick.hide();
+      await exportResults(matches.map(toSavedResult));
+      return;
+    }
+    if (button === selectButton) {
+      quickPick.canSelectMany = !quickPick.canSelectMany;
+      quickPick.placeholder = quickPick.canSelectMany
+        ? "Check results and press Enter to save them in LiveGrep Results"
+        : "Please enter a search term";
+      showToggles();
+      return;
+    }
+    const step = buttonScopeStep(button);
+    if (step) {
+      const next = await stepScope(scope, workspaceFolders, step);
+      if (!next) {
+        vscode.window.showInformationMessage(`LiveGrep: Already searching the ${step === 1 ? "widest" : "narrowest"} scope`);
+        return;
+      }
+      scope = next;
+      dirs = next.dirs;
+      showToggles();
+      // Search the new scope for the same query
+      searched = false;
+      handleValueChange(quickPick.value);
+      return;
+    }
+    const toggle = buttonToggle(button);
+    if (!toggle) {
+      return;
+    }
+    toggles = { ...toggles, [toggle]: !toggles[toggle] };
+    showToggles();
+    await saveToggles(context, "quickPick", toggles);
+    // Search again with the new flags
+    handleValueChange(quickPick.value);
+  });
+
+  quickPick.onDidTriggerItemButton(async ({ item, button }) => {
+    const { historyEntry, match } = item as QuickPickItemWithLine;
+    const openAction = buttonOpenAction(button);
+    if (match && openAction) {
+      await history.add("grep", quickPickValue);
+      if (keepsPickerOpen(openAction)) {
+        await openMatch(match.filePath, match.lineNumber, match.column, openAction);
+        return;
+      }
+      accepted = true;
+      openedFile = match.filePath;
+      quickPick.hide();
+      await openMatch(match.filePath, match.lineNumber, match.column, openAction);
+      return;
+    }
+    if (!historyEntry) {
+      return;
+    }
+    await triggerHistoryButton(history, "grep", historyEntry, button);
+    if (!quickPick.value) {
+      quickPick.items = historyItems(history);
+    }
+  });
+
   quickPick.onDidAccept(async () => {
+    if (quickPick.canSelectMany) {
+      if (!quickPick.selectedItems.some((item) => (item as QuickPickItemWithLine).match)) {
+        return;
+      }
+      const matches = pickedMatches();
+      await history.add("grep", quickPickValue);
+      quickPick.hide();
+      await savedResults.add(resultsQuery, dirs, resultsArgs, matches.map(toSavedResult));
+      return;
+    }
+
     const item = quickPick.selectedItems[0] as QuickPickItemWithLine;
-    if (!item) {
+    if (!item || item.truncated) {
       return;
     }
 
-    if (item.description === "History") {
+    if (item.historyEntry) {
       quickPick.value = item.label;
       return;
     }
 
-    // Create scrollback item to store history
-    const scrollBackItem = {
-      label: quickPickValue,
-      description: "History",
-      num: 0,
-    };
-    // Scrollback history is limited to 20 items
-    if (scrollBack.length > 20) {
-      // Remove oldest item
-      scrollBack.pop();
-    }
-    scrollBack.unshift(scrollBackItem);
+    await history.add("grep", quickPickValue);
 
-    const { detail, num } = item;
-    const doc = await vscode.workspace.openTextDocument("" + detail);
-    await vscode.window.showTextDocument(doc);
-    if (!vscode.window.activeTextEditor) {
-      vscode.window.showErrorMessage("No active editor.");
-      return;
+    accepted = true;
+    openedFile = item.match!.filePath;
+    clearTimeout(previewTimer);
+    quickPick.hide();
+    const match = item.match!;
+    await openMatch(match.filePath, match.lineNumber, match.column, "current");
+  });
+
+  quickPick.onDidHide(async () => {
+    // Stop any rg children still running for this picker
+    session.cancel();
+    clearTimeout(previewTimer);
+    matchDecoration.dispose();
+    quickPick.dispose();
+    if (!accepted) {
+      await restorePreviousEditor();
     }
-    vscode.window.activeTextEditor.selection = new vscode.Selection(
-      ~~num,
-      0,
-      ~~num,
-      0
-    );
-    vscode.commands.executeCommand("cursorUp");
+    endPreview(openedFile);
   });
 
   quickPick.show();
@@ -197,94 +536,54 @@ export async function searchDirs(
   }
 }
 
+// The first line of the selection, or the word under the cursor
+function editorSearchText(editor: vscode.TextEditor, word: boolean): string | undefined {
+  const { document, selection } = editor;
+  if (word) {
+    const range = document.getWordRangeAtPosition(selection.active);
+    return range && document.getText(range);
+  }
+  const text = document.getText(selection).split(/\r?\n/).find((line) => line.trim() !== "");
+  return text || undefined;
+}
+
 export function registerGrepCommands(
   context: vscode.ExtensionContext,
   rgPath: string,
-  workspaceFolders: string[] | undefined
+  workspaceFolders: string[] | undefined,
+  history: SearchHistory,
+  savedResults: ResultsStore
 ) {
-  const scrollBack: QuickPickItemWithLine[] = [];
-
-  // Workspace search
-  const disposableWorkspace = vscode.commands.registerCommand(
-    "livegrep.search",
-    async (initialValue?: string) => {
-      if (!workspaceFolders) {
-        vscode.window.showErrorMessage(
-          "Open a workspace or a folder for Livegrep: Search Workspace to work"
-        );
-        return;
-      }
-      const title = initialValue ? `Searching workspace for: ${initialValue}` : undefined;
-      searchDirs(rgPath, workspaceFolders, scrollBack, title, initialValue);
-    }
-  );
-  context.subscriptions.push(disposableWorkspace);
-
-  // Current folder search
-  const disposableCurrent = vscode.commands.registerCommand(
-    "livegrep.searchCurrent",
-    async (initialValue?: string) => {
-      if (!vscode.window.activeTextEditor) {
-        vscode.window.showErrorMessage("No active editor.");
-        return;
-      }
-      let pwd = vscode.Uri.parse(
-        vscode.window.activeTextEditor.document.uri.path
-      );
-      let pwdString = pwd.path;
-      if (
-        (await vscode.workspace.fs.stat(pwd)).type === vscode.FileType.File
-      ) {
-        pwdString = path.dirname(pwdString);
-      }
-      const title = initialValue 
-        ? `Searching in current directory for: ${initialValue}` 
-        : `Searching in current directory: ${truncatePath(pwdString)}`;
-      searchDirs(rgPath, [pwdString], scrollBack, title, initialValue);
-    }
-  );
-  context.subscriptions.push(disposableCurrent);
+  const run = (scope: ResolvedScope, initialValue?: string) =>
+    searchDirs(context, rgPath, scope, workspaceFolders, history, savedResults, initialValue);
+  // livegrep.search, livegrep.searchCurrent and livegrep.searchLevel_0 to _5
+  registerScopedCommands(context, "livegrep.search", workspaceFolders, run);
+  // livegrep.searchOpenEditors, ...GitChanges, ...BranchChanges and ...SelectedFiles
+  registerFileListCommands(context, "livegrep.search", workspaceFolders, run);
 
-  // Level-based search
-  const searchLevel = async (level: number, initialValue?: string) => {
-    if (!vscode.window.activeTextEditor) {
-      vscode.window.showErrorMessage("No active editor.");
+  // Editor context menu: search the workspace for the selection or the
+  // word under the cursor, as a fixed string
+  const searchEditorText = async (word: boolean) => {
+    const editor = vscode.window.activeTextEditor;
+    const text = editor && editorSearchText(editor, word);
+    if (!text) {
+      vscode.window.showInformationMessage(word ? "LiveGrep: No word under the cursor" : "LiveGrep: Nothing is selected");
       return;
     }
-    let pwd = vscode.Uri.parse(
-      vscode.window.activeTextEditor.document.uri.path
-    );
-    let pwdString = pwd.path;
-    if (
-      (await vscode.workspace.fs.stat(pwd)).type === vscode.FileType.File
-    ) {
-      pwdString = path.dirname(pwdString);
-    }
-    
-    // Go up 'level' number of directories
-    for (let i = 0; i < level; i++) {
-      pwdString = path.dirname(pwdString);
+    const scope = await resolveScope({ kind: "workspace" }, workspaceFolders);
+    if (scope) {
+      run(scope, quoteLiteral(text));
     }
-    
-    // Create descriptive title based on level
-    let title: string;
-    if (initialValue) {
-      title = `Level ${level} grep for: ${initialValue} in: ${truncatePath(pwdString)}`;
-    } else {
-      title = `Level ${level} grep in: ${truncatePath(pwdString)}`;
-    }
-    
-    searchDirs(rgPath, [pwdString], scrollBack, title, initialValue);
   };
+  const disposableSearchSelection = vscode.commands.registerCommand(
+    "livegrep.searchSelection",
+    () => searchEditorText(false)
+  );
+  context.subscriptions.push(disposableSearchSelection);
 
-  // Register commands for different levels
-  for (let level = 0; level <= 5; level++) {
-    const disposableLevel = vscode.commands.registerCommand(
-      `livegrep.searchLevel_${level}`,
-      async (initialValue?: string) => {
-        await searchLevel(level, initialValue);
-      }
-    );
-    context.subscriptions.push(disposableLevel);
-  }
-} 
\ No newline at end of file
+  const disposableSearchWord = vscode.commands.registerCommand(
+    "livegrep.searchWordUnderCursor",
+    () => searchEditorText(true)
+  );
+  context.subscriptions.push(disposableSearchWord);
+}
@@ -0,0 +1,134 @@
+import * as vscode from "vscode";
+
+// Grep queries are shared by the QuickPick and the webview; file patterns
+// are kept apart since they mean something different.
+export type HistoryKind = "grep" | "files";
+
+export interface HistoryEntry {
+  query: string;
+  pinned: boolean;
+  lastUsed: number;
+}
+
+export interface SearchHistory {
+  // Pinned entries first, then most recently used
+  entries: (kind: HistoryKind) => HistoryEntry[];
+  add: (kind: HistoryKind, query: string) => Promise<void>;
+  togglePin: (kind: HistoryKind, query: string) => Promise<void>;
+  remove: (kind: HistoryKind, query: string) => Promise<void>;
+  // Drops every unpinned entry of every kind
+  clear: () => Promise<void>;
+}
+
+const HISTORY_KINDS: HistoryKind[] = ["grep", "files"];
+
+const getHistorySize = () => {
+  return vscode.workspace.getConfiguration('livegrep').get<number>('historySize') ?? 20;
+};
+
+const getHistoryScope = () => {
+  return vscode.workspace.getConfiguration('livegrep').get<string>('historyScope') || "workspace";
+};
+
+export function createSearchHistory(context: vscode.ExtensionContext): SearchHistory {
+  // Read the setting on every access so changing it applies immediately
+  const storage = () =>
+    getHistoryScope() === "global" ? context.globalState : context.workspaceState;
+  const key = (kind: HistoryKind) => `livegrep.history.${kind}`;
+
+  const entries = (kind: HistoryKind): HistoryEntry[] => {
+    const stored = storage().get<HistoryEntry[]>(key(kind)) || [];
+    return [...stored].sort((a, b) => {
+      if (a.pinned !== b.pinned) {
+        return a.pinned ? -1 : 1;
+      }
+      return b.lastUsed - a.lastUsed;
+    });
+  };
+
+  const save = async (kind: HistoryKind, list: HistoryEntry[]) => {
+    // Pinned entries never count towards the size limit
+    const pinned = list.filter((entry) => entry.pinned);
+    const recent = list
+      .filter((entry) => !entry.pinned)
+      .slice(0, Math.max(0, getHistorySize()));
+    await storage().update(key(kind), [...pinned, ...recent]);
+  };
+
+  return {
+    entries,
+    add: async (kind, query) => {
+      const trimmed = query.trim();
+      if (trimmed === "") {
+        return;
+      }
+      const list = entries(kind);
+      const existing = list.find((entry) => entry.query === trimmed);
+      const rest = list.filter((entry) => entry.query !== trimmed);
+      await save(kind, [
+        { query: trimmed, pinned: existing?.pinned ?? false, lastUsed: Date.now() },
+        ...rest,
+      ]);
+    },
+    togglePin: async (kind, query) => {
+      await save(
+        kind,
+        entries(kind).map((entry) =>
+          entry.query === query ? { ...entry, pinned: !entry.pinned } : entry
+        )
+      );
+    },
+    remove: async (kind, query) => {
+      await save(kind, entries(kind).filter((entry) => entry.query !== query));
+    },
+    clear: async () => {
+      for (const kind of HISTORY_KINDS) {
+        await save(kind, entries(kind).filter((entry) => entry.pinned));
+      }
+    },
+  };
+}
+
+export function historyItemButtons(entry: HistoryEntry): vscode.QuickInputButton[] {
+  return [
+    {
+      iconPath: new vscode.ThemeIcon(entry.pinned ? "pinned" : "pin"),
+      tooltip: entry.pinned ? "Unpin query" : "Pin query",
+    },
+    {
+      iconPath: new vscode.ThemeIcon("close"),
+      tooltip: "Remove from history",
+    },
+  ];
+}
+
+// Handles a press on one of the historyItemButtons
+export async function triggerHistoryButton(
+  history: SearchHistory,
+  kind: HistoryKind,
+  entry: HistoryEntry,
+  button: vscode.QuickInputButton
+) {
+  const icon = button.iconPath;
+  if (icon instanceof vscode.ThemeIcon && icon.id === "close") {
+    await history.remove(kind, entry.query);
+  } else {
+    await history.togglePin(kind, entry.query);
+  }
+}
+
+export function registerHistoryCommands(
+  context: vscode.ExtensionContext,
+  history: SearchHistory
+) {
+  const disposableClearHistory = vscode.commands.registerCommand(
+    "livegrep.clearHistory",
+    async () => {
+      await history.clear();
+      vscode.window.showInformationMessage(
+        "LiveGrep: Search history cleared (pinned queries were kept)"
+      );
+    }
+  );
+  context.subscriptions.push(disposableClearHistory);
+}
@@ -0,0 +1,118 @@
+import * as vscode from "vscode";
+
+// Ways of opening a result, shared by the QuickPick and the webview
+export type OpenAction = "current" | "side" | "newGroup" | "keepOpen" | "background";
+
+interface OpenActionInfo {
+  action: OpenAction;
+  label: string;
+  // Codicon for the QuickPick item button
+  icon: string;
+}
+
+// The actions besides a plain accept, in the order of the item buttons
+export const ALTERNATE_OPEN_ACTIONS: OpenActionInfo[] = [
+  { action: "side", label: "Open to the Side", icon: "split-horizontal" },
+  { action: "newGroup", label: "Open in New Tab Group", icon: "split-vertical" },
+  { action: "keepOpen", label: "Open and Keep Searching", icon: "go-to-file" },
+  { action: "background", label: "Open in Background", icon: "eye-closed" },
+];
+
+// Whether the picker stays open so more results can be opened
+export function keepsPickerOpen(action: OpenAction): boolean {
+  return action === "keepOpen" || action === "background";
+}
+
+interface OpenActionButton extends vscode.QuickInputButton {
+  openAction: OpenAction;
+}
+
+export function openActionButtons(): vscode.QuickInputButton[] {
+  return ALTERNATE_OPEN_ACTIONS.map(
+    (info): OpenActionButton => ({
+      iconPath: new vscode.ThemeIcon(info.icon),
+      tooltip: info.label,
+      openAction: info.action,
+    })
+  );
+}
+
+// The action a QuickPick item button stands for, if it is one of openActionButtons
+export function buttonOpenAction(button: vscode.QuickInputButton): OpenAction | undefined {
+  return (button as OpenActionButton).openAction;
+}
+
+// A column right of every existing tab group, so showing an editor there creates a new group
+function newGroupColumn(): vscode.ViewColumn {
+  const columns = vscode.window.tabGroups.all.map((group) => group.viewColumn);
+  return Math.max(0, ...columns) + 1;
+}
+
+// Active and Beside as the column numbers they stand for right now
+function concreteColumn(column: vscode.ViewColumn): vscode.ViewColumn {
+  const activeColumn = vscode.window.tabGroups.activeTabGroup.viewColumn;
+  if (column === vscode.ViewColumn.Active) {
+    return activeColumn;
+  }
+  if (column === vscode.ViewColumn.Beside) {
+    return activeColumn + 1;
+  }
+  return column;
+}
+
+// Opens a file with the cursor on a match. keepOpenColumn is where the
+// actions that leave the picker open put the file: the active group for
+// the QuickPick, beside the panel for the webview.
+export async function openMatch(
+  filePath: string,
+  lineNumber: number,
+  column: number,
+  action: OpenAction,
+  keepOpenColumn: vscode.ViewColumn = vscode.ViewColumn.Active
+) {
+  try {
+    const position = new vscode.Position(lineNumber - 1, Math.max(0, column - 1));
+    const selection = new vscode.Selection(position, position);
+    const doc = await vscode.workspace.openTextDocument(filePath);
+
+    if (action === "background") {
+      // Open pinned without focus, then bring back what the group showed
+      const targetColumn = concreteColumn(keepOpenColumn);
+      const previous = vscode.window.visibleTextEditors.find(
+        (editor) => editor.viewColumn === targetColumn
+      );
+      const editor = await vscode.window.showTextDocument(doc, {
+        viewColumn: targetColumn,
+        preserveFocus: true,
+        preview: false,
+        selection,
+      });
+      if (previous && previous.document !== doc) {
+        await vscode.window.showTextDocument(previous.document, {
+          viewColumn: editor.viewColumn,
+          preserveFocus: true,
+          selection: previous.selection,
+        });
+      }
+      return;
+    }
+
+    const viewColumn =
+      action === "side"
+        ? vscode.ViewColumn.Beside
+        : action === "newGroup"
+          ? newGroupColumn()
+          : action === "keepOpen"
+            ? keepOpenColumn
+            : vscode.ViewColumn.Active;
+    const editor = await vscode.window.showTextDocument(doc, {
+      viewColumn,
+      preserveFocus: action === "keepOpen",
+      preview: action === "keepOpen" ? false : undefined,
+      selection,
+    });
+    editor.revealRange(selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to open file: ${error}`);
+  }
+}
@@ -0,0 +1,419 @@
+// Query language shared by every grep surface (QuickPick and webview).
+//
+// A query is a whitespace separated list of tokens:
+//
+//   foo bar            bare words, joined with a space into one regex
+//   "foo  bar"         quoted phrase ('single' quotes work too), matched
+//                      literally with its whitespace kept
+//   -i / -s / -S       ignore case / case sensitive / smart case (default)
+//   -w                 match whole words only
+//   -F                 treat the whole pattern as a literal string
+//   -t ts / -T ts      only search / skip files of an rg file type
+//   -g '*.ts'          include files matching a glob, '!*.ts' to exclude;
+//                      --iglob for a case-insensitive glob
+//   file:*.test.ts     shorthand for -g
+//   path:src/lib       only search below this path (relative to the root)
+//   --                 everything after this is part of the pattern
+//
+// Two spaces, or a ">" starting a token, end the query sent to rg. What
+// follows fuzzy-filters its results in memory (see splitRefinement).
+//
+// Short flags can be combined (-wi) and values attached (-tts, --type=ts).
+// Any other option is passed to rg unchanged. Quotes only start a phrase
+// at the beginning of a token or right after "path:"/"file:", so
+// apostrophes in words such as don't can be typed as they are.
+
+export type CaseMode = "smart" | "sensitive" | "insensitive";
+
+export type QueryNode =
+  | { kind: "term"; text: string; quoted: boolean }
+  | { kind: "case"; mode: CaseMode }
+  | { kind: "wordBoundary" }
+  | { kind: "fixedString"; enabled: boolean }
+  | { kind: "glob"; pattern: string; caseInsensitive: boolean }
+  | { kind: "type"; name: string; negated: boolean }
+  | { kind: "path"; path: string }
+  | { kind: "option"; args: string[] };
+
+export interface GlobFilter {
+  // A leading "!" excludes the matching files
+  pattern: string;
+  caseInsensitive: boolean;
+}
+
+// Settings a query starts from before its own flags are applied
+export interface QueryDefaults {
+  caseMode: CaseMode;
+  wordBoundary: boolean;
+  fixedString: boolean;
+}
+
+export interface ParsedQuery extends QueryDefaults {
+  nodes: QueryNode[];
+  // The pattern handed to rg, already escaped where phrases were quoted
+  pattern: string;
+  globs: GlobFilter[];
+  types: string[];
+  excludedTypes: string[];
+  paths: string[];
+  extraArgs: string[];
+}
+
+export const DEFAULT_QUERY_DEFAULTS: QueryDefaults = {
+  caseMode: "smart",
+  wordBoundary: false,
+  fixedString: false,
+};
+
+interface Token {
+  text: string;
+  // Any part of the token was quoted
+  quoted: boolean;
+  // The token opened with a quote, so it can't be an option or filter
+  startsQuoted: boolean;
+}
+
+const FLAG_NODES = new Map<string, QueryNode>([
+  ["-i", { kind: "case", mode: "insensitive" }],
+  ["--ignore-case", { kind: "case", mode: "insensitive" }],
+  ["-s", { kind: "case", mode: "sensitive" }],
+  ["--case-sensitive", { kind: "case", mode: "sensitive" }],
+  ["-S", { kind: "case", mode: "smart" }],
+  ["--smart-case", { kind: "case", mode: "smart" }],
+  ["-w", { kind: "wordBoundary" }],
+  ["--word-regexp", { kind: "wordBoundary" }],
+  ["-F", { kind: "fixedString", enabled: true }],
+  ["--fixed-strings", { kind: "fixedString", enabled: true }],
+  ["--no-fixed-strings", { kind: "fixedString", enabled: false }],
+]);
+
+// Options whose value is parsed into a filter node
+const FILTER_OPTIONS = new Map<string, (value: string) => QueryNode>([
+  ["-t", (name) => ({ kind: "type", name, negated: false })],
+  ["--type", (name) => ({ kind: "type", name, negated: false })],
+  ["-T", (name) => ({ kind: "type", name, negated: true })],
+  ["--type-not", (name) => ({ kind: "type", name, negated: true })],
+  ["-g", (pattern) => ({ kind: "glob", pattern, caseInsensitive: false })],
+  ["--glob", (pattern) => ({ kind: "glob", pattern, caseInsensitive: false })],
+  ["--iglob", (pattern) => ({ kind: "glob", pattern, caseInsensitive: true })],
+]);
+
+// Other rg options that take a value, passed through together with it
+const VALUE_OPTIONS = new Set([
+  "-A", "--after-context",
+  "-B", "--before-context",
+  "-C", "--context",
+  "-m", "--max-count",
+  "-d", "--max-depth",
+  "-M", "--max-columns",
+]);
+
+const isQuote = (ch: string) => ch === '"' || ch === "'";
+
+// Number of backslashes starting at i
+function backslashRun(input: string, i: number): number {
+  let run = 0;
+  while (input[i + run] === "\\") {
+    run++;
+  }
+  return run;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    let text = "";
+    let quoted = false;
+    const startsQuoted = isQuote(input[i]);
+    while (i < input.length && !/\s/.test(input[i])) {
+      const ch = input[i];
+      const opensQuote =
+        isQuote(ch) && (text === "" || /^(path|file):$/.test(text));
+      if (!opensQuote) {
+        text += ch;
+        i++;
+        continue;
+      }
+
+      // Read up to the closing quote; an unterminated phrase runs to the end
+      quoted = true;
+      i++;
+      while (i < input.length && input[i] !== ch) {
+        if (input[i] === "\\") {
+          // Backslashes escape only before a quote, as in Windows command
+          // lines: \\" is a backslash and the closing quote, \" a quote
+          const run = backslashRun(input, i);
+          if (input[i + run] === ch) {
+            text += "\\".repeat(Math.floor(run / 2));
+            i += run;
+            if (run % 2 === 0) {
+              break;
+            }
+          } else {
+            text += input.slice(i, i + run);
+            i += run;
+            continue;
+          }
+        }
+        text += input[i];
+        i++;
+      }
+      i++;
+    }
+    tokens.push({ text, quoted, startsQuoted });
+  }
+  return tokens;
+}
+
+// Splits off the fuzzy refinement: "foo  bar" and "foo > bar" search for
+// foo with rg and keep the hits that fuzzy-match bar. Separators inside
+// quoted phrases don't count.
+export function splitRefinement(input: string): { search: string; refine: string } {
+  let quote: string | undefined;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quote) {
+      if (ch === "\\") {
+        // An odd run of backslashes escapes the quote after it
+        const run = backslashRun(input, i);
+        i += run % 2 === 1 && input[i + run] === quote ? run : run - 1;
+      } else if (ch === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    const tokenStart = i === 0 || /\s/.test(input[i - 1]) || /(^|\s)(path|file):$/.test(input.slice(0, i));
+    if (isQuote(ch) && tokenStart) {
+      quote = ch;
+    } else if (/\s/.test(ch) && /\s/.test(input[i + 1] || "")) {
+      return { search: input.slice(0, i), refine: input.slice(i).trim() };
+    } else if (ch === ">" && i > 0 && tokenStart) {
+      return { search: input.slice(0, i), refine: input.slice(i + 1).trim() };
+    }
+  }
+  return { search: input, refine: "" };
+}
+
+// A query searching for the text as it is: a quoted phrase, which rg gets
+// as a fixed string and which separators and flags inside can't break.
+// Backslashes before a quote, or before the closing one, are doubled.
+export function quoteLiteral(text: string): string {
+  const quote = text.includes('"') && !text.includes("'") ? "'" : '"';
+  const escaped = text.replace(new RegExp(`(\\\\*)(${quote}|$)`, "g"), (_, backslashes: string, end: string) =>
+    backslashes + backslashes + (end ? `\\${end}` : "")
+  );
+  return quote + escaped + quote;
+}
+
+// Escapes the characters rg's regex syntax treats as special
+export function escapeRgRegex(text: string): string {
+  return text.replace(/[\\.+*?()|[\]{}^$#&\-~]/g, "\\$&");
+}
+
+function parseOption(
+  token: string,
+  next: () => string | undefined
+): QueryNode[] | undefined {
+  const flagNode = FLAG_NODES.get(token);
+  if (flagNode) {
+    return [flagNode];
+  }
+
+  // --name=value and --name value
+  if (token.startsWith("--")) {
+    const [name, ...rest] = token.split("=");
+    const attached = rest.length ? rest.join("=") : undefined;
+    const filterNode = FILTER_OPTIONS.get(name);
+    if (filterNode) {
+      const value = attached ?? next();
+      return value ? [filterNode(value)] : [];
+    }
+    if (VALUE_OPTIONS.has(name) && attached === undefined) {
+      const value = next();
+      return value ? [{ kind: "option", args: [name, value] }] : [];
+    }
+    return [{ kind: "option", args: [token] }];
+  }
+
+  // Clusters of short flags, where a value option ends the cluster
+  const nodes: QueryNode[] = [];
+  for (let c = 1; c < token.length; c++) {
+    const flag = `-${token[c]}`;
+    const attached = token.substring(c + 1);
+    const filterNode = FILTER_OPTIONS.get(flag);
+    if (filterNode) {
+      const value = attached || next();
+      if (value) {
+        nodes.push(filterNode(value));
+      }
+      return nodes;
+    }
+    if (VALUE_OPTIONS.has(flag)) {
+      const value = attached || next();
+      if (value) {
+        nodes.push({ kind: "option", args: [flag, value] });
+      }
+      return nodes;
+    }
+    const flagNode = FLAG_NODES.get(flag);
+    if (!flagNode) {
+      return undefined;
+    }
+    nodes.push(flagNode);
+  }
+  return nodes;
+}
+
+export function parseQuery(
+  input: string,
+  defaults: QueryDefaults = DEFAULT_QUERY_DEFAULTS
+): ParsedQuery {
+  const tokens = tokenize(input);
+  const nodes: QueryNode[] = [];
+  let optionsEnded = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const { text, quoted, startsQuoted } = tokens[i];
+    const next = () => (i + 1 < tokens.length ? tokens[++i].text : undefined);
+
+    if (optionsEnded || startsQuoted) {
+      nodes.push({ kind: "term", text, quoted });
+      continue;
+    }
+    if (text === "--") {
+      optionsEnded = true;
+      continue;
+    }
+
+    const filter = /^(path|file):(.*)$/.exec(text);
+    if (filter) {
+      // An empty filter is still being typed, leave it out
+      if (filter[2] !== "") {
+        nodes.push(
+          filter[1] === "path"
+            ? { kind: "path", path: filter[2] }
+            : { kind: "glob", pattern: filter[2], caseInsensitive: false }
+        );
+      }
+      continue;
+    }
+
+    if (/^--?[A-Za-z]/.test(text)) {
+      const optionNodes = parseOption(text, next);
+      // Unknown short options are passed through as they are
+      nodes.push(...(optionNodes ?? [{ kind: "option", args: [text] }]));
+      continue;
+    }
+
+    nodes.push({ kind: "term", text, quoted });
+  }
+
+  return resolveQuery(nodes, defaults);
+}
+
+function resolveQuery(nodes: QueryNode[], defaults: QueryDefaults): ParsedQuery {
+  const parsed: ParsedQuery = {
+    ...defaults,
+    nodes,
+    pattern: "",
+    globs: [],
+    types: [],
+    excludedTypes: [],
+    paths: [],
+    extraArgs: [],
+  };
+  const terms: { text: string; quoted: boolean }[] = [];
+  let explicitRegex = false;
+
+  for (const node of nodes) {
+    switch (node.kind) {
+      case "term":
+        terms.push(node);
+        break;
+      case "case":
+        parsed.caseMode = node.mode;
+        break;
+      case "wordBoundary":
+        parsed.wordBoundary = true;
+        break;
+      case "fixedString":
+        parsed.fixedString = node.enabled;
+        explicitRegex = !node.enabled;
+        break;
+      case "glob":
+        parsed.globs.push({ pattern: node.pattern, caseInsensitive: node.caseInsensitive });
+        break;
+      case "type":
+        (node.negated ? parsed.excludedTypes : parsed.types).push(node.name);
+        break;
+      case "path":
+        parsed.paths.push(node.path);
+        break;
+      case "option":
+        parsed.extraArgs.push(...node.args);
+        break;
+    }
+  }
+
+  // Only quoted phrases: search for the literal text. Mixed with bare
+  // words: escape the phrases so they stay literal inside the regex.
+  if (!explicitRegex && terms.length > 0 && terms.every((term) => term.quoted)) {
+    parsed.fixedString = true;
+  }
+  parsed.pattern = terms
+    .map((term) =>
+      term.quoted && !parsed.fixedString ? escapeRgRegex(term.text) : term.text
+    )
+    .join(" ");
+  return parsed;
+}
+
+// Whether rg will match the pattern case-insensitively
+export function isCaseInsensitive(parsed: ParsedQuery): boolean {
+  if (parsed.caseMode === "smart") {
+    return !/[A-Z]/.test(parsed.pattern);
+  }
+  return parsed.caseMode === "insensitive";
+}
+
+// Full rg argument list, ending with the search paths: those of the query,
+// or else the scope's (a list of files, or "." for the whole directory)
+export function toRgArgs(parsed: ParsedQuery, scopePaths: string[] = ["."]): string[] {
+  const args: string[] = [];
+  switch (parsed.caseMode) {
+    case "smart":
+      args.push("--smart-case");
+      break;
+    case "sensitive":
+      args.push("--case-sensitive");
+      break;
+    case "insensitive":
+      args.push("--ignore-case");
+      break;
+  }
+  if (parsed.wordBoundary) {
+    args.push("--word-regexp");
+  }
+  if (parsed.fixedString) {
+    args.push("--fixed-strings");
+  }
+  for (const type of parsed.types) {
+    args.push("--type", type);
+  }
+  for (const type of parsed.excludedTypes) {
+    args.push("--type-not", type);
+  }
+  for (const glob of parsed.globs) {
+    args.push(glob.caseInsensitive ? "--iglob" : "--glob", glob.pattern);
+  }
+  args.push(...parsed.extraArgs);
+  args.push("-e", parsed.pattern, "--");
+  args.push(...(parsed.paths.length ? parsed.paths : scopePaths));
+  return args;
+}
@@ -0,0 +1,148 @@
+import * as vscode from "vscode";
+import { RgMatch, byteOffsetToCharIndex } from "./rgSearch";
+
+export interface ReplaceOptions {
+  ignoreCase: boolean;
+  fixedString: boolean;
+}
+
+// Character range within a matched line and the text that replaces it
+export interface LineEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+export interface ReplaceSummary {
+  replaced: number;
+  files: number;
+  skipped: number;
+}
+
+// Expands rg's (Rust's) replacement syntax: $1, ${1}, $name and ${name}
+// insert capture groups, $$ a dollar sign. Like rg, a bare $name takes the
+// longest run of word characters, and groups that don't exist insert nothing.
+export function expandReplacement(
+  replacement: string,
+  groups: (string | undefined)[],
+  named: Record<string, string | undefined> = {}
+): string {
+  return replacement.replace(/\$(?:(\$)|\{(\w+)\}|(\w+))/g, (reference, dollar, braced, bare) => {
+    if (dollar) {
+      return "$";
+    }
+    const name: string = braced ?? bare;
+    return (/^\d+$/.test(name) ? groups[Number(name)] : named[name]) ?? "";
+  });
+}
+
+// Whether the replacement refers to capture groups at all
+const usesGroups = (replacement: string) => /\$(?!\$)[{\w]/.test(replacement.replace(/\$\$/g, ""));
+
+// Builds a function that maps the text of one submatch to its replacement.
+// Capture groups are resolved by re-running the pattern on the submatch
+// itself, so $1 refers to the groups of the text ripgrep matched. Throws
+// when the groups can't be resolved, rather than writing the replacement
+// with its $1 into the files.
+export function createReplacer(
+  pattern: string,
+  replacement: string,
+  options: ReplaceOptions
+): (matchText: string) => string {
+  // $0 is all there is to a fixed string's match
+  if (options.fixedString || !usesGroups(replacement)) {
+    return (matchText) => expandReplacement(replacement, [matchText]);
+  }
+
+  let anchored: RegExp;
+  let loose: RegExp;
+  try {
+    const flags = options.ignoreCase ? "i" : "";
+    anchored = new RegExp(`^(?:${pattern})$`, flags);
+    loose = new RegExp(pattern, flags);
+  } catch (error) {
+    throw new Error(
+      `the pattern uses regex syntax JavaScript can't run, so its capture groups can't be replaced (${error instanceof Error ? error.message : error})`
+    );
+  }
+
+  const substitute = (regex: RegExp, matchText: string) => {
+    const groups = regex.exec(matchText)!;
+    return matchText.replace(regex, () => expandReplacement(replacement, [...groups], groups.groups));
+  };
+  return (matchText) => {
+    if (anchored.test(matchText)) {
+      return substitute(anchored, matchText);
+    }
+    // Lookarounds and anchors can refuse the isolated submatch
+    if (loose.test(matchText)) {
+      return substitute(loose, matchText);
+    }
+    throw new Error(`can't resolve the capture groups of "${matchText}" outside its line`);
+  };
+}
+
+export function computeLineEdits(
+  match: RgMatch,
+  replacer: (matchText: string) => string
+): LineEdit[] {
+  return match.submatches.map((submatch) => ({
+    start: byteOffsetToCharIndex(match.text, submatch.start),
+    end: byteOffsetToCharIndex(match.text, submatch.end),
+    newText: replacer(submatch.match),
+  }));
+}
+
+// Applies every replacement through one WorkspaceEdit so a single undo
+// reverts it. Lines that changed since the search ran are skipped.
+export async function applyReplacements(
+  matches: RgMatch[],
+  replacer: (matchText: string) => string
+): Promise<ReplaceSummary> {
+  const edit = new vscode.WorkspaceEdit();
+  const byFile = new Map<string, RgMatch[]>();
+  for (const match of matches) {
+    const fileMatches = byFile.get(match.filePath) || [];
+    fileMatches.push(match);
+    byFile.set(match.filePath, fileMatches);
+  }
+
+  const summary: ReplaceSummary = { replaced: 0, files: 0, skipped: 0 };
+  for (const [filePath, fileMatches] of byFile) {
+    let doc: vscode.TextDocument;
+    try {
+      doc = await vscode.workspace.openTextDocument(filePath);
+    } catch (error) {
+      summary.skipped += fileMatches.reduce((count, match) => count + match.submatches.length, 0);
+      continue;
+    }
+
+    let replacedInFile = 0;
+    for (const match of fileMatches) {
+      const line = match.lineNumber - 1;
+      if (line >= doc.lineCount || doc.lineAt(line).text !== match.text) {
+        summary.skipped += match.submatches.length;
+        continue;
+      }
+      const lineEdits = computeLineEdits(match, replacer);
+      for (const lineEdit of lineEdits) {
+        edit.replace(
+          doc.uri,
+          new vscode.Range(line, lineEdit.start, line, lineEdit.end),
+          lineEdit.newText
+        );
+      }
+      replacedInFile += lineEdits.length;
+    }
+
+    if (replacedInFile > 0) {
+      summary.replaced += replacedInFile;
+      summary.files++;
+    }
+  }
+
+  if (summary.replaced > 0 && !(await vscode.workspace.applyEdit(edit))) {
+    throw new Error("VS Code rejected the workspace edit");
+  }
+  return summary;
+}
@@ -0,0 +1,100 @@
+// Text formats for exporting result lists and reading them back
+
+export type ExportFormat = "vimgrep" | "json" | "csv" | "markdown";
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: "vimgrep", label: "Quickfix (path:line:col:text)", extension: "txt" },
+  { format: "json", label: "JSON", extension: "json" },
+  { format: "csv", label: "CSV", extension: "csv" },
+  { format: "markdown", label: "Markdown table", extension: "md" },
+];
+
+// One result as written to an export, with the path already made
+// relative to wherever the export is saved
+export interface ResultLocation {
+  path: string;
+  lineNumber: number;
+  column: number;
+  text: string;
+  // Character ranges of the matches on the line
+  ranges?: { start: number; end: number }[];
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Inline code that survives backticks and pipes in the line
+function markdownCode(text: string): string {
+  const escaped = text.replace(/\|/g, "\\|");
+  if (escaped === "") {
+    return "";
+  }
+  return escaped.includes("`") ? `\`\` ${escaped} \`\`` : `\`${escaped}\``;
+}
+
+function markdownLink(location: ResultLocation): string {
+  // Segment by segment, so # ? and parentheses in names don't end the link
+  const target = location.path.split(/[\\/]/).map(encodeURIComponent).join("/").replace(/[()]/g, (ch) => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`);
+  const label = `${location.path}:${location.lineNumber}`.replace(/([[\]|])/g, "\\$1");
+  return `[${label}](${target}#L${location.lineNumber})`;
+}
+
+export function formatResults(results: ResultLocation[], format: ExportFormat): string {
+  switch (format) {
+    case "vimgrep":
+      return results
+        .map((result) => `${result.path}:${result.lineNumber}:${result.column}:${result.text}\n`)
+        .join("");
+    case "json":
+      return JSON.stringify(
+        results.map((result) => ({
+          path: result.path,
+          line: result.lineNumber,
+          column: result.column,
+          text: result.text,
+          ranges: result.ranges || [],
+        })),
+        null,
+        2
+      ) + "\n";
+    case "csv":
+      return ["path,line,column,text", ...results.map((result) =>
+        [result.path, result.lineNumber, result.column, result.text].map(csvField).join(",")
+      )].join("\n") + "\n";
+    case "markdown":
+      return [
+        "| Location | Text |",
+        "| --- | --- |",
+        ...results.map((result) => `| ${markdownLink(result)} | ${markdownCode(result.text.trim())} |`),
+      ].join("\n") + "\n";
+  }
+}
+
+// Reads `path:line:col:text` lines as written by vimgrep, rg --vimgrep or
+// the quickfix export; `path:line:text` (grep -n) works too. Lines that
+// don't fit are skipped.
+export function parseVimgrep(content: string): ResultLocation[] {
+  const results: ResultLocation[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    // The lazy path keeps Windows drive letters ("C:\...") in the path
+    const match = /^(.+?):(\d+):(?:(\d+):)?(.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    results.push({
+      path: match[1],
+      lineNumber: Number(match[2]),
+      column: match[3] ? Number(match[3]) : 1,
+      text: match[4],
+    });
+  }
+  return results;
+}
@@ -0,0 +1,244 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { RgMatch, searchWithRg } from "./rgSearch";
+
+// Search results rendered as a read-only text document under the
+// livegrep: scheme, like VS Code's search editor. The URI holds the id of
+// the search, kept in workspaceState so the document can be re-run at any
+// time, even after a reload. The rg arguments never come from the URI: any
+// link can open one, and rg options such as --pre run commands.
+
+const SCHEME = "livegrep";
+// Lines of context shown around each match; -A/-B/-C in the query win
+const CONTEXT_LINES = 2;
+const STORAGE_KEY = "livegrep.resultsEditorSearches";
+// Searches kept for results documents, the oldest are dropped first
+const MAX_SEARCHES = 50;
+
+interface ResultsEditorSearch {
+  query: string;
+  dirs: string[];
+  // Full rg arguments, as used by the QuickPick or the webview
+  args: string[];
+}
+
+// Where a line of the document points to in the searched files
+interface LineTarget {
+  filePath: string;
+  lineNumber: number;
+  column: number;
+}
+
+interface RenderedResults {
+  text: string;
+  // Indexed by document line, undefined for lines that point nowhere
+  targets: (LineTarget | undefined)[];
+}
+
+const getMaxResults = () => {
+  return vscode.workspace.getConfiguration('livegrep').get<number>('maxResults') || 2000;
+};
+
+// Set by registerResultsEditor
+let searchStore: vscode.Memento | undefined;
+
+const storedSearches = () =>
+  searchStore?.get<[string, ResultsEditorSearch][]>(STORAGE_KEY) || [];
+
+async function toUri(search: ResultsEditorSearch): Promise<vscode.Uri> {
+  // The same search gets the same id, and so opens the same document
+  const id = crypto.createHash("sha1").update(JSON.stringify(search)).digest("hex").slice(0, 16);
+  const others = storedSearches().filter(([storedId]) => storedId !== id);
+  await searchStore?.update(STORAGE_KEY, [...others, [id, search]].slice(-MAX_SEARCHES));
+  // The path is the tab title, the id goes in the query
+  const title = search.query.replace(/[\\/]/g, " ").slice(0, 60);
+  return vscode.Uri.from({
+    scheme: SCHEME,
+    path: `/LiveGrep ${title}`,
+    query: id,
+  });
+}
+
+function fromUri(uri: vscode.Uri): ResultsEditorSearch | undefined {
+  return storedSearches().find(([id]) => id === uri.query)?.[1];
+}
+
+// Runs the search with context lines, stopping at maxResults matches
+function runSearch(
+  rgPath: string,
+  search: ResultsEditorSearch,
+  maxResults: number
+): Promise<{ matches: RgMatch[]; truncated: boolean; errors: string[] }> {
+  return new Promise((resolve) => {
+    const matches: RgMatch[] = [];
+    const errors: string[] = [];
+    let truncated = false;
+    const rg = searchWithRg(rgPath, search.dirs, ["--context", `${CONTEXT_LINES}`, ...search.args], {
+      onMatch: (match) => {
+        if (truncated) {
+          return;
+        }
+        matches.push(match);
+        if (matches.length >= maxResults) {
+          truncated = true;
+          rg.cancel();
+          resolve({ matches, truncated, errors });
+        }
+      },
+      onComplete: () => resolve({ matches, truncated, errors }),
+      onError: (error) => errors.push(error),
+    });
+  });
+}
+
+// Per-file sections in the layout of the search editor: matched lines
+// have a colon after the line number, context lines don't, and gaps
+// between runs of lines are marked with "⋮"
+function renderResults(
+  search: ResultsEditorSearch,
+  matches: RgMatch[],
+  truncated: boolean,
+  errors: string[]
+): RenderedResults {
+  const lines: string[] = [];
+  const targets: (LineTarget | undefined)[] = [];
+  const push = (line: string, target?: LineTarget) => {
+    lines.push(line);
+    targets.push(target);
+  };
+
+  const files = new Map<string, RgMatch[]>();
+  for (const match of matches) {
+    const fileMatches = files.get(match.filePath) || [];
+    fileMatches.push(match);
+    files.set(match.filePath, fileMatches);
+  }
+
+  push(`# Query: ${search.query}`);
+  push(`# Searched: ${search.dirs.join(", ")}`);
+  const count = `${matches.length} result${matches.length === 1 ? "" : "s"} in ${files.size} file${files.size === 1 ? "" : "s"}`;
+  push(`# ${count}${truncated ? ` (stopped at ${matches.length}, refine the search to see more)` : ""}`);
+  for (const error of errors) {
+    push(`# Error: ${error.replace(/\r?\n/g, " ")}`);
+  }
+
+  for (const [filePath, fileMatches] of files) {
+    // Context lines of neighbouring matches overlap, matches win over context
+    const fileLines = new Map<number, { text: string; column?: number }>();
+    for (const match of fileMatches) {
+      for (const context of [...match.contextBefore, ...match.contextAfter]) {
+        if (!fileLines.has(context.lineNumber)) {
+          fileLines.set(context.lineNumber, { text: context.text });
+        }
+      }
+      fileLines.set(match.lineNumber, { text: match.text, column: match.column });
+    }
+    const numbers = [...fileLines.keys()].sort((a, b) => a - b);
+    const width = String(numbers[numbers.length - 1]).length;
+
+    push("");
+    push(`${fileMatches[0].relativePath}:`, { filePath, lineNumber: fileMatches[0].lineNumber, column: fileMatches[0].column });
+    numbers.forEach((lineNumber, i) => {
+      if (i > 0 && lineNumber > numbers[i - 1] + 1) {
+        push(`  ${" ".repeat(width - 1)}⋮`);
+      }
+      const line = fileLines.get(lineNumber)!;
+      const label = String(lineNumber).padStart(width);
+      const target = { filePath, lineNumber, column: line.column ?? 1 };
+      push(line.column === undefined ? `  ${label}  ${line.text}` : `  ${label}: ${line.text}`, target);
+    });
+  }
+  return { text: lines.join("\n") + "\n", targets };
+}
+
+function targetLocation(target: LineTarget): vscode.Location {
+  return new vscode.Location(
+    vscode.Uri.file(target.filePath),
+    new vscode.Position(target.lineNumber - 1, Math.max(0, target.column - 1))
+  );
+}
+
+export async function openResultsEditor(query: string, dirs: string[], args: string[]) {
+  try {
+    const doc = await vscode.workspace.openTextDocument(await toUri({ query, dirs, args }));
+    // Beside the code, so the results can stay open next to it
+    await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside, preview: false });
+  } catch (error) {
+    vscode.window.showErrorMessage(`LiveGrep: Failed to open results: ${error}`);
+  }
+}
+
+export function registerResultsEditor(context: vscode.ExtensionContext, rgPath: string) {
+  searchStore = context.workspaceState;
+  const changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  // Line targets of each open results document, by URI
+  const rendered = new Map<string, (LineTarget | undefined)[]>();
+  const selector: vscode.DocumentSelector = { scheme: SCHEME };
+
+  const targetAt = (doc: vscode.TextDocument, line: number) =>
+    rendered.get(doc.uri.toString())?.[line];
+
+  context.subscriptions.push(
+    changeEmitter,
+    vscode.workspace.registerTextDocumentContentProvider(SCHEME, {
+      onDidChange: changeEmitter.event,
+      provideTextDocumentContent: async (uri) => {
+        const search = fromUri(uri);
+        if (!search) {
+          return "# Not a LiveGrep search, or one too old to re-run\n";
+        }
+        const { matches, truncated, errors } = await runSearch(rgPath, search, getMaxResults());
+        const { text, targets } = renderResults(search, matches, truncated, errors);
+        rendered.set(uri.toString(), targets);
+        return text;
+      },
+    }),
+    vscode.workspace.onDidCloseTextDocument((doc) => {
+      rendered.delete(doc.uri.toString());
+    }),
+    // Ctrl+click on a line number or file name
+    vscode.languages.registerDocumentLinkProvider(selector, {
+      provideDocumentLinks: (doc) => {
+        const links: vscode.DocumentLink[] = [];
+        (rendered.get(doc.uri.toString()) || []).forEach((target, line) => {
+          if (!target || line >= doc.lineCount) {
+            return;
+          }
+          const text = doc.lineAt(line).text;
+          // The line number of result lines, the whole path of file headers
+          const start = text.search(/\S/);
+          const end = text.startsWith(" ") ? start + String(target.lineNumber).length : text.length - 1;
+          const link = new vscode.DocumentLink(
+            new vscode.Range(line, start, line, end),
+            vscode.Uri.file(target.filePath).with({ fragment: `L${target.lineNumber},${target.column}` })
+          );
+          link.tooltip = `${target.filePath}:${target.lineNumber}`;
+          links.push(link);
+        });
+        return links;
+      },
+    }),
+    // F12 anywhere on a line
+    vscode.languages.registerDefinitionProvider(selector, {
+      provideDefinition: (doc, position) => {
+        const target = targetAt(doc, position.line);
+        return target && targetLocation(target);
+      },
+    }),
+    vscode.languages.registerCodeLensProvider(selector, {
+      provideCodeLenses: (doc) => [
+        new vscode.CodeLens(new vscode.Range(0, 0, 0, 0), {
+          title: "Re-run search",
+          command: "livegrep.rerunResultsEditor",
+          arguments: [doc.uri],
+        }),
+      ],
+    }),
+    vscode.commands.registerCommand("livegrep.rerunResultsEditor", (uri?: vscode.Uri) => {
+      const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (target?.scheme === SCHEME) {
+        changeEmitter.fire(target);
+      }
+    })
+  );
+}
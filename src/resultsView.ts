@@ -0,0 +1,457 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { RgMatch, byteOffsetToCharIndex, searchWithRg } from "./rgSearch";
+import { openMatch } from "./openFile";
+import { EXPORT_FORMATS, formatResults, parseVimgrep } from "./resultFormats";
+import { openResultsEditor } from "./resultsEditor";
+
+// Result sets saved from the QuickPick or the webview, listed in the
+// "LiveGrep Results" view like a quickfix list
+
+export interface SavedResult {
+  filePath: string;
+  relativePath: string;
+  lineNumber: number;
+  column: number;
+  text: string;
+  // Character ranges of the matches on the line, when known
+  ranges?: { start: number; end: number }[];
+  // Not found again when the query was last re-run
+  stale?: boolean;
+}
+
+export interface SavedResultSet {
+  id: string;
+  query: string;
+  dirs: string[];
+  // Full rg arguments of the search, so re-running matches the same way.
+  // Empty for imported sets, which can't be re-run.
+  args: string[];
+  savedAt: number;
+  results: SavedResult[];
+}
+
+export type ResultNode =
+  | { kind: "set"; set: SavedResultSet }
+  | { kind: "file"; set: SavedResultSet; filePath: string }
+  | { kind: "result"; set: SavedResultSet; result: SavedResult };
+
+export interface ResultsStore {
+  // Most recently saved first
+  sets: () => SavedResultSet[];
+  // Adds matches to the set of the same query and dirs, or a new one,
+  // and reveals the view
+  add: (query: string, dirs: string[], args: string[], results: SavedResult[]) => Promise<void>;
+  update: (set: SavedResultSet) => Promise<void>;
+  remove: (node: ResultNode) => Promise<void>;
+  clear: () => Promise<void>;
+  onDidChange: vscode.Event<void>;
+}
+
+const STORAGE_KEY = "livegrep.resultSets";
+const VIEW_ID = "livegrepResults";
+
+const resultKey = (result: { filePath: string; lineNumber: number }) =>
+  `${result.filePath}:${result.lineNumber}`;
+
+export function toSavedResult(match: RgMatch): SavedResult {
+  return {
+    filePath: match.filePath,
+    relativePath: match.relativePath,
+    lineNumber: match.lineNumber,
+    column: match.column,
+    text: match.text,
+    ranges: match.submatches.map((submatch) => ({
+      start: byteOffsetToCharIndex(match.text, submatch.start),
+      end: byteOffsetToCharIndex(match.text, submatch.end),
+    })),
+  };
+}
+
+export function createResultsStore(context: vscode.ExtensionContext): ResultsStore {
+  const changeEmitter = new vscode.EventEmitter<void>();
+  context.subscriptions.push(changeEmitter);
+
+  const sets = () => context.workspaceState.get<SavedResultSet[]>(STORAGE_KEY) || [];
+
+  const save = async (list: SavedResultSet[]) => {
+    // Sets left without results go away with them
+    await context.workspaceState.update(
+      STORAGE_KEY,
+      list.filter((set) => set.results.length > 0)
+    );
+    changeEmitter.fire();
+  };
+
+  return {
+    sets,
+    add: async (query, dirs, args, added) => {
+      if (added.length === 0) {
+        return;
+      }
+      const list = sets();
+      // The same query with other toggles or filters is another set
+      const existing = list.find(
+        (set) =>
+          set.query === query &&
+          set.dirs.join("\n") === dirs.join("\n") &&
+          set.args.join("\0") === args.join("\0")
+      );
+      const results = existing ? [...existing.results] : [];
+      const known = new Set(results.map(resultKey));
+      for (const result of added) {
+        if (!known.has(resultKey(result))) {
+          known.add(resultKey(result));
+          results.push(result);
+        }
+      }
+      const set: SavedResultSet = {
+        id: existing?.id ?? `${Date.now()}`,
+        query,
+        dirs,
+        args,
+        savedAt: Date.now(),
+        results,
+      };
+      await save([set, ...list.filter((other) => other !== existing)]);
+      await vscode.commands.executeCommand(`${VIEW_ID}.focus`);
+    },
+    update: async (set) => {
+      await save(sets().map((other) => (other.id === set.id ? set : other)));
+    },
+    remove: async (node) => {
+      const list = sets();
+      if (node.kind === "set") {
+        await save(list.filter((set) => set.id !== node.set.id));
+        return;
+      }
+      const keep = (result: SavedResult) =>
+        node.kind === "file"
+          ? result.filePath !== node.filePath
+          : resultKey(result) !== resultKey(node.result);
+      await save(
+        list.map((set) =>
+          set.id === node.set.id ? { ...set, results: set.results.filter(keep) } : set
+        )
+      );
+    },
+    clear: async () => {
+      await save([]);
+    },
+    onDidChange: changeEmitter.event,
+  };
+}
+
+// Files of a set in the order they were first saved
+function filesOf(set: SavedResultSet): string[] {
+  return [...new Set(set.results.map((result) => result.filePath))];
+}
+
+function createResultsTreeProvider(store: ResultsStore): vscode.TreeDataProvider<ResultNode> {
+  const changeEmitter = new vscode.EventEmitter<ResultNode | undefined>();
+  store.onDidChange(() => changeEmitter.fire(undefined));
+
+  return {
+    onDidChangeTreeData: changeEmitter.event,
+    getChildren: (node) => {
+      if (!node) {
+        return store.sets().map((set): ResultNode => ({ kind: "set", set }));
+      }
+      if (node.kind === "set") {
+        return filesOf(node.set).map((filePath): ResultNode => ({ kind: "file", set: node.set, filePath }));
+      }
+      if (node.kind === "file") {
+        return node.set.results
+          .filter((result) => result.filePath === node.filePath)
+          .sort((a, b) => a.lineNumber - b.lineNumber)
+          .map((result): ResultNode => ({ kind: "result", set: node.set, result }));
+      }
+      return [];
+    },
+    getTreeItem: (node) => {
+      switch (node.kind) {
+        case "set": {
+          const { set } = node;
+          const item = new vscode.TreeItem(set.query, vscode.TreeItemCollapsibleState.Expanded);
+          const count = set.results.length;
+          item.description = `${count} result${count === 1 ? "" : "s"}`;
+          item.tooltip = `${set.query}\nin ${set.dirs.join(", ")}\nsaved ${new Date(set.savedAt).toLocaleString()}`;
+          item.iconPath = new vscode.ThemeIcon("search");
+          item.contextValue = set.args.length ? "livegrepResultSet" : "livegrepResultSet.imported";
+          return item;
+        }
+        case "file": {
+          const item = new vscode.TreeItem(
+            vscode.Uri.file(node.filePath),
+            vscode.TreeItemCollapsibleState.Expanded
+          );
+          const relativePath =
+            node.set.results.find((result) => result.filePath === node.filePath)?.relativePath ?? "";
+          const dir = path.dirname(relativePath);
+          item.description = dir === "." ? "" : dir;
+          item.contextValue = "livegrepResultFile";
+          return item;
+        }
+        case "result": {
+          const { result } = node;
+          const item = new vscode.TreeItem(
+            `${result.lineNumber}: ${result.text.trim()}`,
+            vscode.TreeItemCollapsibleState.None
+          );
+          if (result.stale) {
+            item.description = "not found when re-run";
+            item.iconPath = new vscode.ThemeIcon("warning");
+          }
+          item.tooltip = `${result.relativePath}:${result.lineNumber}:${result.column}`;
+          item.contextValue = "livegrepResult";
+          item.command = {
+            command: "livegrep.results.open",
+            title: "Open Result",
+            arguments: [node],
+          };
+          return item;
+        }
+      }
+    },
+  };
+}
+
+// Moves each saved result to the match with the same text nearest to its
+// old line; results without one are kept and marked stale
+function refreshResults(results: SavedResult[], matches: RgMatch[]): SavedResult[] {
+  const byFile = new Map<string, RgMatch[]>();
+  for (const match of matches) {
+    const fileMatches = byFile.get(match.filePath) || [];
+    fileMatches.push(match);
+    byFile.set(match.filePath, fileMatches);
+  }
+  const taken = new Set<string>();
+  const refreshed: SavedResult[] = [];
+  for (const result of results) {
+    let best: RgMatch | undefined;
+    for (const match of byFile.get(result.filePath) || []) {
+      if (
+        match.text.trim() === result.text.trim() &&
+        !taken.has(resultKey(match)) &&
+        (!best || Math.abs(match.lineNumber - result.lineNumber) < Math.abs(best.lineNumber - result.lineNumber))
+      ) {
+        best = match;
+      }
+    }
+    if (best) {
+      taken.add(resultKey(best));
+      refreshed.push(toSavedResult(best));
+    } else {
+      refreshed.push({ ...result, stale: true });
+    }
+  }
+  return refreshed;
+}
+
+// Fails when rg does: searchWithRg reports errors for exit code 2 or a
+// failed spawn, not for warnings rg printed while still searching
+function rerunSet(rgPath: string, set: SavedResultSet): Promise<RgMatch[]> {
+  const files = new Set(set.results.map((result) => result.filePath));
+  return new Promise((resolve, reject) => {
+    const matches: RgMatch[] = [];
+    const errors: string[] = [];
+    searchWithRg(rgPath, set.dirs, set.args, {
+      onMatch: (match) => {
+        // Only the files already in the set can refresh its results
+        if (files.has(match.filePath)) {
+          matches.push(match);
+        }
+      },
+      onComplete: () => (errors.length ? reject(new Error(errors.join("\n"))) : resolve(matches)),
+      onError: (error) => errors.push(error),
+    });
+  });
+}
+
+// Writes results to a file in a format picked by the user. Paths are made
+// relative to the file, so `vim -q` and Markdown links work from there.
+export async function exportResults(results: SavedResult[]) {
+  if (results.length === 0) {
+    vscode.window.showInformationMessage("LiveGrep: No results to export");
+    return;
+  }
+  const picked = await vscode.window.showQuickPick(
+    EXPORT_FORMATS.map((info) => ({ label: info.label, description: `.${info.extension}`, info })),
+    { placeHolder: `Export ${results.length} result${results.length === 1 ? "" : "s"} as` }
+  );
+  if (!picked) {
+    return;
+  }
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const fileName = `livegrep-results.${picked.info.extension}`;
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+    filters: { [picked.info.label]: [picked.info.extension] },
+  });
+  if (!uri) {
+    return;
+  }
+  const dir = path.dirname(uri.fsPath);
+  const content = formatResults(
+    results.map((result) => ({
+      path: path.relative(dir, result.filePath) || path.basename(result.filePath),
+      lineNumber: result.lineNumber,
+      column: result.column,
+      text: result.text,
+      ranges: result.ranges,
+    })),
+    picked.info.format
+  );
+  try {
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+  } catch (error) {
+    vscode.window.showErrorMessage(`LiveGrep: Failed to export results: ${error}`);
+    return;
+  }
+  const open = await vscode.window.showInformationMessage(
+    `LiveGrep: Exported ${results.length} result${results.length === 1 ? "" : "s"} to ${path.basename(uri.fsPath)}`,
+    "Open"
+  );
+  if (open) {
+    await vscode.window.showTextDocument(uri);
+  }
+}
+
+// Reads a vimgrep-style file into a new saved set, resolving relative
+// paths against the file's folder
+async function importResults(store: ResultsStore) {
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: "Import",
+    title: "Import path:line:col:text results",
+  });
+  if (!picked?.length) {
+    return;
+  }
+  const uri = picked[0];
+  let content: string;
+  try {
+    content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+  } catch (error) {
+    vscode.window.showErrorMessage(`LiveGrep: Failed to read ${uri.fsPath}: ${error}`);
+    return;
+  }
+  const dir = path.dirname(uri.fsPath);
+  const results = parseVimgrep(content).map((location): SavedResult => {
+    const filePath = path.resolve(dir, location.path);
+    return {
+      filePath,
+      relativePath: path.relative(dir, filePath),
+      lineNumber: location.lineNumber,
+      column: location.column,
+      text: location.text,
+    };
+  });
+  if (results.length === 0) {
+    vscode.window.showErrorMessage(`LiveGrep: No path:line:col:text lines found in ${path.basename(uri.fsPath)}`);
+    return;
+  }
+  await store.add(`Imported ${path.basename(uri.fsPath)}`, [dir], [], results);
+}
+
+export function registerResultsView(
+  context: vscode.ExtensionContext,
+  rgPath: string,
+  store: ResultsStore
+) {
+  const treeView = vscode.window.createTreeView(VIEW_ID, {
+    treeDataProvider: createResultsTreeProvider(store),
+    showCollapseAll: true,
+    canSelectMany: true,
+  });
+  context.subscriptions.push(treeView);
+
+  const disposableOpen = vscode.commands.registerCommand(
+    "livegrep.results.open",
+    async (node?: ResultNode) => {
+      if (node?.kind === "result") {
+        await openMatch(node.result.filePath, node.result.lineNumber, node.result.column, "current");
+      }
+    }
+  );
+  context.subscriptions.push(disposableOpen);
+
+  const disposableRemove = vscode.commands.registerCommand(
+    "livegrep.results.remove",
+    async (node?: ResultNode, nodes?: ResultNode[]) => {
+      // Inline buttons pass the clicked node and the whole selection, the
+      // keyboard passes nothing
+      const targets = nodes?.length ? nodes : node ? [node] : [...treeView.selection];
+      for (const selected of targets) {
+        await store.remove(selected);
+      }
+    }
+  );
+  context.subscriptions.push(disposableRemove);
+
+  const disposableRerun = vscode.commands.registerCommand(
+    "livegrep.results.rerun",
+    async (node?: ResultNode) => {
+      if (!node) {
+        return;
+      }
+      const set = store.sets().find((other) => other.id === node.set.id);
+      if (!set || set.args.length === 0) {
+        return;
+      }
+      try {
+        const matches = await vscode.window.withProgress(
+          { location: { viewId: VIEW_ID }, title: `Re-running ${set.query}` },
+          () => rerunSet(rgPath, set)
+        );
+        const results = refreshResults(set.results, matches);
+        await store.update({ ...set, results, savedAt: Date.now() });
+        const stale = results.filter((result) => result.stale).length;
+        if (stale > 0) {
+          vscode.window.showWarningMessage(
+            `LiveGrep: ${stale} of ${results.length} saved result${results.length === 1 ? "" : "s"} for "${set.query}" no longer match`
+          );
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`LiveGrep: Re-running "${set.query}" failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  );
+  context.subscriptions.push(disposableRerun);
+
+  const disposableExport = vscode.commands.registerCommand(
+    "livegrep.results.export",
+    async (node?: ResultNode) => {
+      if (node) {
+        await exportResults(node.set.results);
+      }
+    }
+  );
+  context.subscriptions.push(disposableExport);
+
+  const disposableOpenEditor = vscode.commands.registerCommand(
+    "livegrep.results.openInEditor",
+    async (node?: ResultNode) => {
+      if (node && node.set.args.length) {
+        await openResultsEditor(node.set.query, node.set.dirs, node.set.args);
+      }
+    }
+  );
+  context.subscriptions.push(disposableOpenEditor);
+
+  const disposableImport = vscode.commands.registerCommand(
+    "livegrep.importResults",
+    async () => {
+      await importResults(store);
+    }
+  );
+  context.subscriptions.push(disposableImport);
+
+  const disposableClear = vscode.commands.registerCommand(
+    "livegrep.results.clear",
+    async () => {
+      await store.clear();
+    }
+  );
+  context.subscriptions.push(disposableClear);
+}
@@ -0,0 +1,352 @@
+import * as cp from "child_process";
+import * as path from "path";
+
+// Byte range of a single submatch within a matched line, as reported by rg
+export interface RgSubmatch {
+  match: string;
+  start: number;
+  end: number;
+}
+
+export interface RgContextLine {
+  lineNumber: number;
+  text: string;
+}
+
+export interface RgMatch {
+  filePath: string;
+  fileName: string;
+  relativePath: string;
+  lineNumber: number;
+  // 1-based character column of the first submatch
+  column: number;
+  text: string;
+  submatches: RgSubmatch[];
+  contextBefore: RgContextLine[];
+  contextAfter: RgContextLine[];
+}
+
+export interface RgSearchCallbacks {
+  onMatch: (match: RgMatch) => void;
+  onComplete: () => void;
+  onError: (error: string) => void;
+}
+
+export interface RgSearch {
+  // Kills the rg children still running; no callbacks fire afterwards
+  cancel: () => void;
+}
+
+// rg encodes paths and lines as UTF-8 text when possible, base64 bytes otherwise
+interface RgData {
+  text?: string;
+  bytes?: string;
+}
+
+interface RgLineData {
+  path: RgData;
+  lines: RgData;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  line_number: number | null;
+  submatches: { match: RgData; start: number; end: number }[];
+}
+
+export type RgEvent =
+  | { type: "begin"; data: { path: RgData } }
+  | { type: "match"; data: RgLineData }
+  | { type: "context"; data: RgLineData }
+  | { type: "end"; data: { path: RgData } }
+  | { type: "summary"; data: unknown };
+
+function decodeRgData(data: RgData | undefined): string {
+  if (!data) {
+    return "";
+  }
+  if (data.text !== undefined) {
+    return data.text;
+  }
+  return Buffer.from(data.bytes || "", "base64").toString();
+}
+
+function stripLineEnding(text: string): string {
+  return text.replace(/\r?\n$/, "");
+}
+
+// Converts a UTF-8 byte offset within `text` to a JavaScript string index
+export function byteOffsetToCharIndex(text: string, byteOffset: number): number {
+  return Buffer.from(text).subarray(0, byteOffset).toString().length;
+}
+
+export function parseRgJsonLine(line: string): RgEvent | undefined {
+  if (line.trim() === "") {
+    return undefined;
+  }
+  try {
+    return JSON.parse(line) as RgEvent;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Turns the rg --json event stream for one search directory into RgMatch
+// objects. Each match is held back until the next match or the end of its
+// file so the context lines that follow it can be attached.
+export function createRgMatchParser(
+  dir: string,
+  onMatch: (match: RgMatch) => void
+) {
+  let pending: RgMatch | undefined;
+  let pendingContext: RgContextLine[] = [];
+
+  const flush = (next?: RgMatch) => {
+    // Context lines between two matches are split by contiguity: the run
+    // right after `pending` is its trailing context and the run right before
+    // `next` is its leading context. The two runs overlap when matches are close.
+    if (pending) {
+      let end = 0;
+      while (
+        end < pendingContext.length &&
+        pendingContext[end].lineNumber === pending.lineNumber + end + 1
+      ) {
+        end++;
+      }
+      pending.contextAfter = pendingContext.slice(0, end);
+      onMatch(pending);
+    }
+    if (next) {
+      let start = pendingContext.length;
+      while (
+        start > 0 &&
+        pendingContext[start - 1].lineNumber ===
+          next.lineNumber - (pendingContext.length - start) - 1
+      ) {
+        start--;
+      }
+      next.contextBefore = pendingContext.slice(start);
+    }
+    pending = next;
+    pendingContext = [];
+  };
+
+  const handleEvent = (event: RgEvent) => {
+    switch (event.type) {
+      case "begin":
+        pending = undefined;
+        pendingContext = [];
+        break;
+      case "context":
+        if (event.data.line_number !== null) {
+          pendingContext.push({
+            lineNumber: event.data.line_number,
+            text: stripLineEnding(decodeRgData(event.data.lines)),
+          });
+        }
+        break;
+      case "match": {
+        const rawPath = decodeRgData(event.data.path);
+        const filePath = path.resolve(dir, rawPath);
+        const text = stripLineEnding(decodeRgData(event.data.lines));
+        const submatches = event.data.submatches.map((submatch) => ({
+          match: decodeRgData(submatch.match),
+          start: submatch.start,
+          end: submatch.end,
+        }));
+        const firstStart = submatches.length ? submatches[0].start : 0;
+        flush({
+          filePath,
+          fileName: path.basename(filePath),
+          relativePath: path.relative(dir, filePath),
+          lineNumber: event.data.line_number || 0,
+          column: byteOffsetToCharIndex(text, firstStart) + 1,
+          text,
+          submatches,
+          contextBefore: [],
+          contextAfter: [],
+        });
+        break;
+      }
+      case "end":
+        flush();
+        break;
+    }
+  };
+
+  return {
+    push: (line: string) => {
+      const event = parseRgJsonLine(line);
+      if (event) {
+        handleEvent(event);
+      }
+    },
+    finish: () => flush(),
+  };
+}
+
+// Runs rg --json in every dir and streams typed matches back as they arrive.
+// `args` is the full argument list including the search paths, which are
+// resolved against each dir (see toRgArgs in queryParser.ts).
+export function searchWithRg(
+  rgPath: string,
+  dirs: string[],
+  args: string[],
+  callbacks: RgSearchCallbacks
+): RgSearch {
+  const children: cp.ChildProcess[] = [];
+  let cancelled = false;
+  let processCount = dirs.length;
+  if (processCount === 0) {
+    callbacks.onComplete();
+    return { cancel: () => {} };
+  }
+
+  const onMatch = (match: RgMatch) => {
+    if (!cancelled) {
+      callbacks.onMatch(match);
+    }
+  };
+
+  const onError = (error: string) => {
+    if (!cancelled) {
+      callbacks.onError(error);
+    }
+  };
+
+  const processDone = () => {
+    processCount--;
+    if (processCount === 0 && !cancelled) {
+      callbacks.onComplete();
+    }
+  };
+
+  for (const dir of dirs) {
+    if (dir === "") {
+      onError("Can't parse dir ''");
+      processDone();
+      continue;
+    }
+
+    const parser = createRgMatchParser(dir, onMatch);
+    let buffer = "";
+    let stderr = "";
+    let finished = false;
+
+    try {
+      const rgProcess = cp.spawn(rgPath, ["--json", ...args], {
+        cwd: dir,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+      children.push(rgProcess);
+
+      // Decode as a stream so multi-byte characters split across chunks survive
+      rgProcess.stdout?.setEncoding("utf8");
+      rgProcess.stdout?.on("data", (data: string) => {
+        buffer += data;
+        const lines = buffer.split("\n");
+
+        // Keep the last incomplete line in buffer
+        buffer = lines.pop() || "";
+        lines.forEach(parser.push);
+      });
+
+      rgProcess.stderr?.on("data", (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      rgProcess.on("close", (code) => {
+        // 'close' also follows 'error' when the process failed to spawn
+        if (finished) {
+          return;
+        }
+        finished = true;
+        parser.push(buffer);
+        parser.finish();
+        // rg exits with 1 when nothing matched and 2 on errors
+        if (code === 2 && stderr) {
+          onError(stderr.trim());
+        }
+        processDone();
+      });
+
+      rgProcess.on("error", (error) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        onError(`Search failed in ${dir}: ${error.message}`);
+        processDone();
+      });
+    } catch (error) {
+      onError(`Search failed in ${dir}: ${error}`);
+      processDone();
+    }
+  }
+
+  return {
+    cancel: () => {
+      cancelled = true;
+      for (const child of children) {
+        if (child.exitCode === null && !child.killed) {
+          child.kill();
+        }
+      }
+    },
+  };
+}
+
+export interface SearchSession {
+  // Generation of the most recent search; bumped by every run and cancel
+  readonly generation: number;
+  isCurrent: (generation: number) => boolean;
+  // Cancels the previous search and starts a new generation
+  run: (
+    rgPath: string,
+    dirs: string[],
+    args: string[],
+    callbacks: RgSearchCallbacks
+  ) => number;
+  cancel: () => void;
+}
+
+// One session per QuickPick or webview panel: only the latest query's rg
+// children stay alive, and callbacks from older generations are dropped.
+export function createSearchSession(): SearchSession {
+  let generation = 0;
+  let active: RgSearch | undefined;
+
+  const cancel = () => {
+    generation++;
+    active?.cancel();
+    active = undefined;
+  };
+
+  return {
+    get generation() {
+      return generation;
+    },
+    isCurrent: (candidate) => candidate === generation,
+    run: (rgPath, dirs, args, callbacks) => {
+      cancel();
+      const runGeneration = generation;
+      const isCurrent = () => runGeneration === generation;
+      active = searchWithRg(rgPath, dirs, args, {
+        onMatch: (match) => {
+          if (isCurrent()) {
+            callbacks.onMatch(match);
+          }
+        },
+        onComplete: () => {
+          if (isCurrent()) {
+            callbacks.onComplete();
+          }
+        },
+        onError: (error) => {
+          if (isCurrent()) {
+            callbacks.onError(error);
+          }
+        },
+      });
+      return runGeneration;
+    },
+    cancel,
+  };
+}
@@ -0,0 +1,482 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { branchChangedFiles, gitChangedFiles } from "./git";
+
+// Where a search looks, shared by the QuickPick grep, the file finder and
+// both webviews. Commands take a scope as their argument, and the pickers
+// widen or narrow it along the directories above the current file. The
+// file list scopes hand rg the files to search instead of a directory.
+
+export type ScopeKind =
+  | "workspace"
+  | "workspaceFolder"
+  | "currentDir"
+  | "levelsUp"
+  | "gitRoot"
+  | "packageRoot"
+  | "openEditors"
+  | "gitChanges"
+  | "branchChanges"
+  | "files"
+  | "folder";
+
+export interface SearchScope {
+  kind: ScopeKind;
+  // levelsUp: how many directories above the current file's
+  levels?: number;
+  // workspaceFolder: its name or path; picked from a list when missing
+  folder?: string;
+  // branchChanges: the branch to compare with; picked from a list when missing
+  base?: string;
+  // files: the files or folders to search
+  files?: string[];
+  // folder: the folder to search, e.g. one picked in the Explorer
+  path?: string;
+}
+
+export interface ResolvedScope {
+  scope: SearchScope;
+  dirs: string[];
+  // File list scopes: what rg searches, relative to the single dir
+  paths?: string[];
+  // For titles, e.g. "package root .../packages/app"
+  label: string;
+  // Where widening and narrowing start from: the folder of the file the
+  // scope was found from, or the folder searched
+  anchorDir?: string;
+}
+
+// Argument of every search command: a query, as the commands always took,
+// or the query and the scope
+export interface SearchCommandArgs {
+  query?: string;
+  scope?: SearchScope | ScopeKind;
+}
+
+// Files marking the root of a package
+const PACKAGE_MARKERS = ["package.json", "Cargo.toml", "go.mod"];
+// Levels offered by the legacy searchLevel_N commands
+const MAX_LEVEL_COMMAND = 5;
+
+function truncatePath(pwdString: string, maxLength: number = 30): string {
+  if (pwdString.length <= maxLength) {
+    return pwdString;
+  }
+
+  // Take the last maxLength characters and prepend with "..."
+  const truncated = pwdString.slice(-maxLength);
+  return `...${truncated}`;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// dir and every directory above it, nearest first
+function ancestors(dir: string): string[] {
+  const dirs = [dir];
+  while (path.dirname(dirs[dirs.length - 1]) !== dirs[dirs.length - 1]) {
+    dirs.push(path.dirname(dirs[dirs.length - 1]));
+  }
+  return dirs;
+}
+
+async function findUp(dir: string, markers: string[]): Promise<string | undefined> {
+  for (const candidate of ancestors(dir)) {
+    for (const marker of markers) {
+      if (await exists(path.join(candidate, marker))) {
+        return candidate;
+      }
+    }
+  }
+  return undefined;
+}
+
+function activeFile(): string | undefined {
+  const uri = vscode.window.activeTextEditor?.document.uri;
+  return uri?.scheme === "file" ? uri.fsPath : undefined;
+}
+
+function isInside(dir: string, filePath: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+function scopeLabel(scope: SearchScope, dir: string): string {
+  switch (scope.kind) {
+    case "workspace":
+      return "workspace";
+    case "workspaceFolder":
+      return `workspace folder ${path.basename(dir)}`;
+    case "currentDir":
+      return `current folder ${truncatePath(dir)}`;
+    case "levelsUp":
+      return `${scope.levels} level${scope.levels === 1 ? "" : "s"} up ${truncatePath(dir)}`;
+    case "gitRoot":
+      return `git root ${truncatePath(dir)}`;
+    case "packageRoot":
+      return `package root ${truncatePath(dir)}`;
+    case "folder":
+      return `folder ${truncatePath(dir)}`;
+    default:
+      return "";
+  }
+}
+
+// Deepest directory holding every path: their workspace folder if they
+// share one, so results read as they do in a workspace search
+function commonDir(paths: string[]): string {
+  const folders = new Set(paths.map((p) => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(p))?.uri.fsPath));
+  const [folder] = folders;
+  if (folders.size === 1 && folder) {
+    return folder;
+  }
+  return ancestors(path.dirname(paths[0])).find((dir) => paths.every((p) => isInside(dir, p))) ?? path.parse(paths[0]).root;
+}
+
+// The files a file list scope searches, or undefined with the reason shown
+async function listScopeFiles(
+  scope: SearchScope,
+  anchor: string | undefined
+): Promise<{ scope: SearchScope; files: string[]; label: string } | undefined> {
+  switch (scope.kind) {
+    case "openEditors": {
+      // Text tabs and the modified side of diffs, across every group
+      const files = vscode.window.tabGroups.all
+        .flatMap((group) => group.tabs)
+        .map((tab) =>
+          tab.input instanceof vscode.TabInputText
+            ? tab.input.uri
+            : tab.input instanceof vscode.TabInputTextDiff
+              ? tab.input.modified
+              : undefined
+        )
+        .filter((uri): uri is vscode.Uri => uri?.scheme === "file")
+        .map((uri) => uri.fsPath);
+      return { scope, files, label: "open editors" };
+    }
+    case "gitChanges": {
+      const changed = await gitChangedFiles();
+      return changed && { scope, files: changed, label: "git changes" };
+    }
+    case "branchChanges": {
+      const branch = await branchChangedFiles(scope.base, anchor);
+      return branch && { scope: { ...scope, base: branch.base }, files: branch.files, label: `changes since ${branch.base}` };
+    }
+    case "files": {
+      const given = scope.files || [];
+      const label = given.length === 1 ? path.basename(given[0]) : `${given.length} selected files`;
+      return { scope, files: given, label };
+    }
+    default:
+      return undefined;
+  }
+}
+
+async function resolveFileListScope(scope: SearchScope, anchor: string | undefined): Promise<ResolvedScope | undefined> {
+  const list = await listScopeFiles(scope, anchor);
+  if (!list) {
+    return undefined;
+  }
+  // Deleted files are among the changes, and rg fails on missing paths
+  const existing: string[] = [];
+  for (const file of new Set(list.files)) {
+    if (await exists(file)) {
+      existing.push(file);
+    }
+  }
+  if (existing.length === 0) {
+    vscode.window.showInformationMessage(`LiveGrep: No files to search in ${list.label}`);
+    return undefined;
+  }
+  const dir = commonDir(existing);
+  // rg searches files given by name even where globs and types would
+  // leave them out, so filters don't narrow these lists
+  return {
+    scope: list.scope,
+    dirs: [dir],
+    paths: existing.map((file) => path.relative(dir, file) || "."),
+    label: list.label,
+    anchorDir: anchor && path.dirname(anchor),
+  };
+}
+
+const FILE_LIST_KINDS: ScopeKind[] = ["openEditors", "gitChanges", "branchChanges", "files"];
+
+async function pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+  const folders = vscode.workspace.workspaceFolders || [];
+  return folders.length === 1 ? folders[0] : vscode.window.showWorkspaceFolderPick();
+}
+
+// The directories of a scope, or undefined with the reason shown when
+// there are none (no workspace, no file open, no git repository...)
+export async function resolveScope(
+  scope: SearchScope,
+  workspaceFolders: string[] | undefined,
+  anchor: string | undefined = activeFile()
+): Promise<ResolvedScope | undefined> {
+  const anchorDir = anchor && path.dirname(anchor);
+  if (scope.kind === "workspace") {
+    if (!workspaceFolders) {
+      vscode.window.showErrorMessage("Open a workspace or a folder for LiveGrep to search it");
+      return undefined;
+    }
+    return { scope, dirs: workspaceFolders, label: scopeLabel(scope, ""), anchorDir };
+  }
+
+  if (scope.kind === "folder") {
+    if (!scope.path || !(await exists(scope.path))) {
+      vscode.window.showErrorMessage(`LiveGrep: No folder ${scope.path ?? "given"} to search`);
+      return undefined;
+    }
+    return { scope, dirs: [scope.path], label: scopeLabel(scope, scope.path), anchorDir: scope.path };
+  }
+
+  if (scope.kind === "workspaceFolder") {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const folder = scope.folder
+      ? folders.find((f) => f.name === scope.folder || f.uri.fsPath === scope.folder)
+      : (anchor && vscode.workspace.getWorkspaceFolder(vscode.Uri.file(anchor))) || (await pickWorkspaceFolder());
+    if (!folder) {
+      if (scope.folder) {
+        vscode.window.showErrorMessage(`LiveGrep: No workspace folder ${scope.folder}`);
+      }
+      return undefined;
+    }
+    const resolved = { ...scope, folder: folder.name };
+    return { scope: resolved, dirs: [folder.uri.fsPath], label: scopeLabel(resolved, folder.uri.fsPath), anchorDir };
+  }
+
+  if (FILE_LIST_KINDS.includes(scope.kind)) {
+    return resolveFileListScope(scope, anchor);
+  }
+
+  if (!anchorDir) {
+    vscode.window.showErrorMessage("No active editor.");
+    return undefined;
+  }
+  let dir: string | undefined;
+  switch (scope.kind) {
+    case "currentDir":
+      dir = anchorDir;
+      break;
+    case "levelsUp": {
+      const chain = ancestors(anchorDir);
+      dir = chain[Math.min(scope.levels ?? 0, chain.length - 1)];
+      break;
+    }
+    case "gitRoot":
+      // .git is a file in worktrees and submodules
+      dir = await findUp(anchorDir, [".git"]);
+      break;
+    case "packageRoot":
+      dir = await findUp(anchorDir, PACKAGE_MARKERS);
+      break;
+  }
+  if (!dir) {
+    vscode.window.showErrorMessage(
+      scope.kind === "gitRoot"
+        ? "LiveGrep: The current file is not in a git repository"
+        : "LiveGrep: No package.json, Cargo.toml or go.mod above the current file"
+    );
+    return undefined;
+  }
+  return { scope, dirs: [dir], label: scopeLabel(scope, dir), anchorDir };
+}
+
+const sameDirs = (a: string[], b: string[]) => a.join("\0") === b.join("\0");
+
+// Scopes from the current file's folder (or the folder searched) out to the
+// whole workspace, narrowest first. Each directory appears once, under its
+// most telling name: workspace folder, then git root, then package root.
+async function scopeLadder(workspaceFolders: string[] | undefined, anchorDir: string | undefined): Promise<ResolvedScope[]> {
+  const ladder: ResolvedScope[] = [];
+  if (anchorDir) {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(anchorDir));
+    const gitRoot = await findUp(anchorDir, [".git"]);
+    const packageRoot = await findUp(anchorDir, PACKAGE_MARKERS);
+    // Up to the workspace folder holding the file, or its git root, or a
+    // few levels for files outside both
+    const top = folder?.uri.fsPath ?? gitRoot;
+    for (const [levels, dir] of ancestors(anchorDir).entries()) {
+      const scope: SearchScope =
+        folder && dir === folder.uri.fsPath
+          ? { kind: "workspaceFolder", folder: folder.name }
+          : dir === gitRoot
+            ? { kind: "gitRoot" }
+            : dir === packageRoot
+              ? { kind: "packageRoot" }
+              : levels === 0
+                ? { kind: "currentDir" }
+                : { kind: "levelsUp", levels };
+      ladder.push({ scope, dirs: [dir], label: scopeLabel(scope, dir), anchorDir });
+      if (dir === top || (!top && levels >= MAX_LEVEL_COMMAND)) {
+        break;
+      }
+    }
+  }
+  // With one folder, the workspace is the folder's step already
+  if (workspaceFolders && !(ladder.length > 0 && sameDirs(ladder[ladder.length - 1].dirs, workspaceFolders))) {
+    const scope: SearchScope = { kind: "workspace" };
+    ladder.push({ scope, dirs: workspaceFolders, label: scopeLabel(scope, ""), anchorDir });
+  }
+  return ladder;
+}
+
+// The next wider (1) or narrower (-1) scope, or undefined at either end
+export async function stepScope(
+  current: ResolvedScope,
+  workspaceFolders: string[] | undefined,
+  direction: 1 | -1
+): Promise<ResolvedScope | undefined> {
+  const ladder = await scopeLadder(workspaceFolders, current.anchorDir);
+  const contains = (outer: ResolvedScope, inner: ResolvedScope) =>
+    inner.dirs.every((dir) => outer.dirs.some((outerDir) => isInside(outerDir, dir)));
+  // A file list widens to the directory holding it and narrows no further
+  if (current.paths) {
+    return direction === 1 ? ladder.find((step) => contains(step, current)) : undefined;
+  }
+  const index = ladder.findIndex((step) => sameDirs(step.dirs, current.dirs));
+  if (index !== -1) {
+    return ladder[index + direction];
+  }
+  // Off the ladder, e.g. a workspace folder other than the file's
+  return direction === 1
+    ? ladder.find((step) => contains(step, current))
+    : [...ladder].reverse().find((step) => contains(current, step));
+}
+
+interface ScopeButton extends vscode.QuickInputButton {
+  scopeStep: 1 | -1;
+}
+
+// Title bar buttons narrowing and widening the scope of a picker
+export function scopeButtons(): vscode.QuickInputButton[] {
+  const buttons: ScopeButton[] = [
+    { iconPath: new vscode.ThemeIcon("zoom-in"), tooltip: "Narrow Scope", scopeStep: -1 },
+    { iconPath: new vscode.ThemeIcon("zoom-out"), tooltip: "Widen Scope", scopeStep: 1 },
+  ];
+  return buttons;
+}
+
+// The direction a title bar button steps the scope, if it is one of scopeButtons
+export function buttonScopeStep(button: vscode.QuickInputButton): 1 | -1 | undefined {
+  return (button as ScopeButton).scopeStep;
+}
+
+function parseCommandArgs(arg: unknown, defaultScope: SearchScope): { query?: string; scope: SearchScope } {
+  if (typeof arg === "string") {
+    return { query: arg, scope: defaultScope };
+  }
+  if (arg && typeof arg === "object" && !(arg instanceof vscode.Uri)) {
+    const { query, scope } = arg as SearchCommandArgs;
+    return {
+      query,
+      scope: typeof scope === "string" ? { kind: scope } : scope ?? defaultScope,
+    };
+  }
+  return { scope: defaultScope };
+}
+
+type ScopedRun = (scope: ResolvedScope, query?: string) => unknown;
+
+function registerScopeCommand(
+  context: vscode.ExtensionContext,
+  id: string,
+  defaultScope: SearchScope,
+  workspaceFolders: string[] | undefined,
+  run: ScopedRun,
+  searchesFileLists: boolean
+) {
+  const disposable = vscode.commands.registerCommand(id, async (arg?: string | SearchCommandArgs) => {
+    const { query, scope } = parseCommandArgs(arg, defaultScope);
+    if (!searchesFileLists && FILE_LIST_KINDS.includes(scope.kind)) {
+      vscode.window.showErrorMessage("LiveGrep: The file finder searches folders, not lists of files");
+      return;
+    }
+    const resolved = await resolveScope(scope, workspaceFolders);
+    if (resolved) {
+      run(resolved, query);
+    }
+  });
+  context.subscriptions.push(disposable);
+}
+
+// Registers a search surface under `command` (the workspace unless the
+// argument names a scope), `${command}Current` for the current folder,
+// `${command}Level_0` to `_5`, which stay as aliases for levelsUp scopes,
+// and `${command}InFolder` for the Explorer's folder context menu
+export function registerScopedCommands(
+  context: vscode.ExtensionContext,
+  command: string,
+  workspaceFolders: string[] | undefined,
+  run: ScopedRun,
+  searchesFileLists: boolean = true
+) {
+  const register = (id: string, defaultScope: SearchScope) =>
+    registerScopeCommand(context, id, defaultScope, workspaceFolders, run, searchesFileLists);
+
+  register(command, { kind: "workspace" });
+  register(`${command}Current`, { kind: "currentDir" });
+  for (let level = 0; level <= MAX_LEVEL_COMMAND; level++) {
+    register(`${command}Level_${level}`, level === 0 ? { kind: "currentDir" } : { kind: "levelsUp", levels: level });
+  }
+
+  // The Explorer passes the folder; from the palette it is picked
+  const disposable = vscode.commands.registerCommand(`${command}InFolder`, async (uri?: vscode.Uri) => {
+    const folder =
+      uri instanceof vscode.Uri
+        ? uri
+        : (
+            await vscode.window.showOpenDialog({
+              canSelectFiles: false,
+              canSelectFolders: true,
+              defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+              openLabel: "Search",
+            })
+          )?.[0];
+    if (!folder) {
+      return;
+    }
+    const resolved = await resolveScope({ kind: "folder", path: folder.fsPath }, workspaceFolders);
+    if (resolved) {
+      run(resolved);
+    }
+  });
+  context.subscriptions.push(disposable);
+}
+
+// Registers `${command}OpenEditors`, `${command}GitChanges` and
+// `${command}BranchChanges`, and `${command}SelectedFiles` for the
+// Explorer's context menu, which passes the clicked and the selected files
+export function registerFileListCommands(
+  context: vscode.ExtensionContext,
+  command: string,
+  workspaceFolders: string[] | undefined,
+  run: ScopedRun
+) {
+  registerScopeCommand(context, `${command}OpenEditors`, { kind: "openEditors" }, workspaceFolders, run, true);
+  registerScopeCommand(context, `${command}GitChanges`, { kind: "gitChanges" }, workspaceFolders, run, true);
+  registerScopeCommand(context, `${command}BranchChanges`, { kind: "branchChanges" }, workspaceFolders, run, true);
+
+  const disposable = vscode.commands.registerCommand(
+    `${command}SelectedFiles`,
+    async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+      const selected = uris?.length ? uris : uri instanceof vscode.Uri ? [uri] : [];
+      if (selected.length === 0) {
+        vscode.window.showErrorMessage("LiveGrep: Select files in the Explorer to search them");
+        return;
+      }
+      const resolved = await resolveScope({ kind: "files", files: selected.map((u) => u.fsPath) }, workspaceFolders);
+      if (resolved) {
+        run(resolved);
+      }
+    }
+  );
+  context.subscriptions.push(disposable);
+}
@@ -0,0 +1,117 @@
+import * as vscode from "vscode";
+import { QueryDefaults } from "./queryParser";
+
+// Search switches exposed as QuickPick buttons and webview chips
+export interface SearchToggles {
+  smartCase: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  fixedString: boolean;
+  includeHidden: boolean;
+  followSymlinks: boolean;
+}
+
+export type ToggleName = keyof SearchToggles;
+
+// Each surface remembers its own toggles
+export type ToggleSurface = "quickPick" | "webview";
+
+export const DEFAULT_TOGGLES: SearchToggles = {
+  smartCase: true,
+  caseSensitive: false,
+  wholeWord: false,
+  fixedString: false,
+  includeHidden: false,
+  followSymlinks: false,
+};
+
+interface ToggleInfo {
+  name: ToggleName;
+  label: string;
+  // Codicon for the QuickPick button
+  icon: string;
+  // Alt+key shortcut in the webview
+  key: string;
+}
+
+export const TOGGLE_INFO: ToggleInfo[] = [
+  { name: "smartCase", label: "Smart Case", icon: "wand", key: "s" },
+  { name: "caseSensitive", label: "Match Case", icon: "case-sensitive", key: "c" },
+  { name: "wholeWord", label: "Whole Word", icon: "whole-word", key: "w" },
+  { name: "fixedString", label: "Literal", icon: "quote", key: "l" },
+  { name: "includeHidden", label: "Hidden & Ignored", icon: "eye", key: "h" },
+  { name: "followSymlinks", label: "Follow Symlinks", icon: "file-symlink-directory", key: "y" },
+];
+
+const storageKey = (surface: ToggleSurface) => `livegrep.toggles.${surface}`;
+
+export function loadToggles(
+  context: vscode.ExtensionContext,
+  surface: ToggleSurface
+): SearchToggles {
+  return {
+    ...DEFAULT_TOGGLES,
+    ...context.globalState.get<Partial<SearchToggles>>(storageKey(surface)),
+  };
+}
+
+export async function saveToggles(
+  context: vscode.ExtensionContext,
+  surface: ToggleSurface,
+  toggles: SearchToggles
+) {
+  await context.globalState.update(storageKey(surface), toggles);
+}
+
+// Match Case wins over Smart Case; with neither, case is ignored
+export function toQueryDefaults(toggles: SearchToggles): QueryDefaults {
+  return {
+    caseMode: toggles.caseSensitive
+      ? "sensitive"
+      : toggles.smartCase
+        ? "smart"
+        : "insensitive",
+    wordBoundary: toggles.wholeWord,
+    fixedString: toggles.fixedString,
+  };
+}
+
+// rg flags for the toggles the query language has no syntax for
+export function toggleArgs(toggles: SearchToggles): string[] {
+  const args: string[] = [];
+  if (toggles.includeHidden) {
+    args.push("--hidden", "--no-ignore");
+  }
+  if (toggles.followSymlinks) {
+    args.push("--follow");
+  }
+  return args;
+}
+
+// Short summary of the active toggles for titles, e.g. "Match Case, Whole Word"
+export function describeToggles(toggles: SearchToggles): string {
+  return TOGGLE_INFO.filter(
+    (info) => toggles[info.name] && !(info.name === "smartCase" && toggles.caseSensitive)
+  )
+    .map((info) => info.label)
+    .join(", ");
+}
+
+interface ToggleButton extends vscode.QuickInputButton {
+  toggle: ToggleName;
+}
+
+export function toggleButtons(toggles: SearchToggles): vscode.QuickInputButton[] {
+  return TOGGLE_INFO.map(
+    (info): ToggleButton => ({
+      iconPath: new vscode.ThemeIcon(info.icon),
+      tooltip: `${info.label} (${toggles[info.name] ? "on" : "off"})`,
+      toggle: info.name,
+    })
+  );
+}
+
+// The toggle a QuickPick button stands for, if it is one of toggleButtons
+export function buttonToggle(button: vscode.QuickInputButton): ToggleName | undefined {
+  return (button as ToggleButton).toggle;
+}
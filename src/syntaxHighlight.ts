@@ -0,0 +1,385 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as vsctm from "vscode-textmate";
+import * as oniguruma from "vscode-oniguruma";
+
+// TextMate highlighting for the webview preview, using the grammars and
+// color theme of the installed extensions the way the editor does.
+
+// Lines longer than this are shown as plain text
+const MAX_LINE_LENGTH = 3000;
+// In longer files, tokenizing starts at the preview instead of the first line
+const MAX_LINES_BEFORE_PREVIEW = 5000;
+// Time allowed for tokenizing one preview, plain text after that
+const TOKENIZE_BUDGET_MS = 150;
+// Documents whose tokenizer states are kept
+const STATE_CACHE_SIZE = 10;
+
+// A run of a line with the same style, as character offsets
+export interface TokenSpan {
+  start: number;
+  end: number;
+  className: string;
+}
+
+interface GrammarInfo {
+  scopeName: string;
+  path: string;
+  embeddedLanguages?: vsctm.IEmbeddedLanguagesMap;
+}
+
+interface GrammarIndex {
+  byLanguage: Map<string, GrammarInfo>;
+  byScope: Map<string, GrammarInfo>;
+  injections: Map<string, string[]>;
+}
+
+interface ThemeContribution {
+  id?: string;
+  label?: string;
+  path: string;
+}
+
+interface ThemeSetting {
+  scope?: string | string[];
+  settings: { foreground?: string; background?: string; fontStyle?: string };
+}
+
+interface ThemeFile {
+  include?: string;
+  colors?: Record<string, string>;
+  tokenColors?: ThemeSetting[] | string;
+}
+
+// Tokenizer states of a document: states[i] is the state before line i
+interface DocumentStates {
+  key: string;
+  states: vsctm.StateStack[];
+}
+
+let grammarIndex: GrammarIndex | undefined;
+let registry: vsctm.Registry | undefined;
+let onigLib: Promise<vsctm.IOnigLib> | undefined;
+let themeLoaded = false;
+let stateCache: DocumentStates[] = [];
+
+const tokenStylesEmitter = new vscode.EventEmitter<void>();
+// Fires when the theme changed and previews need new token styles
+export const onDidChangeTokenStyles = tokenStylesEmitter.event;
+
+function loadOnigLib(): Promise<vsctm.IOnigLib> {
+  if (!onigLib) {
+    onigLib = (async () => {
+      const wasm = await fs.promises.readFile(require.resolve("vscode-oniguruma/release/onig.wasm"));
+      await oniguruma.loadWASM(wasm);
+      return {
+        createOnigScanner: (patterns: string[]) => new oniguruma.OnigScanner(patterns),
+        createOnigString: (text: string) => new oniguruma.OnigString(text),
+      };
+    })();
+  }
+  return onigLib;
+}
+
+// Grammars contributed by all extensions, including the built-in ones
+function getGrammarIndex(): GrammarIndex {
+  if (grammarIndex) {
+    return grammarIndex;
+  }
+  const index: GrammarIndex = { byLanguage: new Map(), byScope: new Map(), injections: new Map() };
+  for (const extension of vscode.extensions.all) {
+    const grammars = extension.packageJSON?.contributes?.grammars;
+    if (!Array.isArray(grammars)) {
+      continue;
+    }
+    for (const grammar of grammars) {
+      if (!grammar.scopeName || !grammar.path) {
+        continue;
+      }
+      const info: GrammarInfo = {
+        scopeName: grammar.scopeName,
+        path: path.join(extension.extensionPath, grammar.path),
+        embeddedLanguages: grammar.embeddedLanguages,
+      };
+      index.byScope.set(info.scopeName, info);
+      if (grammar.language && !index.byLanguage.has(grammar.language)) {
+        index.byLanguage.set(grammar.language, info);
+      }
+      for (const target of grammar.injectTo || []) {
+        index.injections.set(target, [...(index.injections.get(target) || []), info.scopeName]);
+      }
+    }
+  }
+  grammarIndex = index;
+  return index;
+}
+
+function getRegistry(): vsctm.Registry {
+  if (!registry) {
+    registry = new vsctm.Registry({
+      onigLib: loadOnigLib(),
+      loadGrammar: async (scopeName) => {
+        const info = getGrammarIndex().byScope.get(scopeName);
+        if (!info) {
+          return null;
+        }
+        const content = await fs.promises.readFile(info.path, "utf8");
+        return vsctm.parseRawGrammar(content, info.path);
+      },
+      getInjections: (scopeName) => getGrammarIndex().injections.get(scopeName),
+    });
+  }
+  if (!themeLoaded) {
+    registry.setTheme(loadActiveTheme());
+    themeLoaded = true;
+  }
+  return registry;
+}
+
+// JSON with comments and trailing commas, as used by theme files
+function parseJsonc(text: string): unknown {
+  let json = "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === "\\") {
+          i++;
+        }
+      }
+      json += text.substring(start, i + 1);
+    } else if (ch === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") {
+        i++;
+      }
+      json += "\n";
+    } else if (ch === "/" && text[i + 1] === "*") {
+      i = text.indexOf("*/", i + 2);
+      if (i === -1) {
+        break;
+      }
+      i++;
+    } else {
+      json += ch;
+    }
+  }
+  return JSON.parse(json.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+function isThemeFile(value: unknown): value is ThemeFile {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const { include, colors, tokenColors } = value as Record<string, unknown>;
+  return (
+    (include === undefined || typeof include === "string") &&
+    (colors === undefined || (!!colors && typeof colors === "object" && !Array.isArray(colors))) &&
+    (tokenColors === undefined || typeof tokenColors === "string" || Array.isArray(tokenColors))
+  );
+}
+
+// Token colors of a theme file and the files it includes, parents first
+function readThemeFile(themePath: string, depth = 0): { colors: Record<string, string>; settings: ThemeSetting[] } {
+  const theme = parseJsonc(fs.readFileSync(themePath, "utf8"));
+  if (!isThemeFile(theme)) {
+    throw new Error(`${themePath} is not a color theme file`);
+  }
+  const parent = theme.include && depth < 10
+    ? readThemeFile(path.join(path.dirname(themePath), theme.include), depth + 1)
+    : { colors: {}, settings: [] };
+  return {
+    colors: { ...parent.colors, ...theme.colors },
+    // tmTheme (plist) token colors aren't supported, they fall back to plain text
+    settings: [...parent.settings, ...(Array.isArray(theme.tokenColors) ? theme.tokenColors : [])],
+  };
+}
+
+function activeThemeName(): string | undefined {
+  const workbench = vscode.workspace.getConfiguration("workbench");
+  if (vscode.workspace.getConfiguration("window").get<boolean>("autoDetectColorScheme")) {
+    switch (vscode.window.activeColorTheme.kind) {
+      case vscode.ColorThemeKind.Dark:
+        return workbench.get<string>("preferredDarkColorTheme");
+      case vscode.ColorThemeKind.Light:
+        return workbench.get<string>("preferredLightColorTheme");
+    }
+  }
+  return workbench.get<string>("colorTheme");
+}
+
+function loadActiveTheme(): vsctm.IRawTheme {
+  const name = activeThemeName();
+  let colors: Record<string, string> = {};
+  let settings: ThemeSetting[] = [];
+  for (const extension of vscode.extensions.all) {
+    const themes: ThemeContribution[] | undefined = extension.packageJSON?.contributes?.themes;
+    const theme = themes?.find((t) => t.id === name || t.label === name);
+    if (theme) {
+      try {
+        ({ colors, settings } = readThemeFile(path.join(extension.extensionPath, theme.path)));
+      } catch (error) {
+        console.error(`LiveGrep: failed to read color theme ${name}: ${error}`);
+      }
+      break;
+    }
+  }
+
+  const customizations = vscode.workspace
+    .getConfiguration("editor")
+    .get<{ textMateRules?: ThemeSetting[] }>("tokenColorCustomizations");
+  const isLight = vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Light;
+  return {
+    name,
+    settings: [
+      // The scope-less rule is the default style. It gets color id 1, which
+      // is left to the webview's own editor foreground.
+      { settings: { foreground: colors["editor.foreground"] || (isLight ? "#000000" : "#D4D4D4") } },
+      ...settings,
+      ...(customizations?.textMateRules || []),
+    ],
+  };
+}
+
+// CSS for the token classes of the current theme
+export function getTokenStyles(): string {
+  const colorMap = getRegistry().getColorMap();
+  let css = "";
+  for (let id = 2; id < colorMap.length; id++) {
+    css += `.mtk${id} { color: ${colorMap[id]}; }\n`;
+  }
+  css += ".mtki { font-style: italic; }\n";
+  css += ".mtkb { font-weight: bold; }\n";
+  css += ".mtku { text-decoration: underline; }\n";
+  css += ".mtks { text-decoration: line-through; }\n";
+  return css;
+}
+
+// Theme or installed extensions changed: drop everything derived from them
+function resetSyntaxHighlighting(grammarsChanged: boolean) {
+  themeLoaded = false;
+  stateCache = [];
+  if (grammarsChanged) {
+    grammarIndex = undefined;
+    registry = undefined;
+  }
+  tokenStylesEmitter.fire();
+}
+
+export function registerSyntaxHighlighting(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    tokenStylesEmitter,
+    vscode.window.onDidChangeActiveColorTheme(() => resetSyntaxHighlighting(false)),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("editor.tokenColorCustomizations")) {
+        resetSyntaxHighlighting(false);
+      }
+    }),
+    vscode.extensions.onDidChange(() => resetSyntaxHighlighting(true))
+  );
+}
+
+function tokenClassName(metadata: number): string {
+  const foreground = (metadata >>> 15) & 0x1ff;
+  const fontStyle = (metadata >>> 11) & 0xf;
+  const classes: string[] = [];
+  if (foreground > 1) {
+    classes.push(`mtk${foreground}`);
+  }
+  if (fontStyle & 1) {
+    classes.push("mtki");
+  }
+  if (fontStyle & 2) {
+    classes.push("mtkb");
+  }
+  if (fontStyle & 4) {
+    classes.push("mtku");
+  }
+  if (fontStyle & 8) {
+    classes.push("mtks");
+  }
+  return classes.join(" ");
+}
+
+function getDocumentStates(doc: vscode.TextDocument): DocumentStates {
+  const key = `${doc.uri.toString()}@${doc.version}`;
+  let entry = stateCache.find((cached) => cached.key === key);
+  if (entry) {
+    stateCache = [entry, ...stateCache.filter((cached) => cached !== entry)];
+  } else {
+    entry = { key, states: [vsctm.INITIAL] };
+    stateCache = [entry, ...stateCache].slice(0, STATE_CACHE_SIZE);
+  }
+  return entry;
+}
+
+// Token spans for lines startLine..endLine (inclusive) of a document, or
+// undefined when there is no grammar for its language. Lines that are too
+// long, or past the time budget, come back without spans.
+export async function highlightLines(
+  doc: vscode.TextDocument,
+  startLine: number,
+  endLine: number
+): Promise<TokenSpan[][] | undefined> {
+  const info = getGrammarIndex().byLanguage.get(doc.languageId);
+  if (!info) {
+    return undefined;
+  }
+  let grammar: vsctm.IGrammar | null;
+  try {
+    grammar = await getRegistry().loadGrammarWithConfiguration(info.scopeName, 1, {
+      embeddedLanguages: info.embeddedLanguages,
+    });
+  } catch (error) {
+    console.error(`LiveGrep: failed to load grammar ${info.scopeName}: ${error}`);
+    return undefined;
+  }
+  if (!grammar) {
+    return undefined;
+  }
+
+  const { states } = getDocumentStates(doc);
+  const deadline = Date.now() + TOKENIZE_BUDGET_MS;
+  // Resume from the last known state, or start fresh at the preview when
+  // that is too far back
+  let line = Math.min(states.length - 1, startLine);
+  let state = states[line];
+  if (startLine - line > MAX_LINES_BEFORE_PREVIEW) {
+    line = startLine;
+    state = vsctm.INITIAL;
+  }
+
+  const result: TokenSpan[][] = [];
+  for (; line <= endLine; line++) {
+    const text = doc.lineAt(line).text;
+    if (text.length > MAX_LINE_LENGTH || Date.now() > deadline) {
+      // The line stays plain and the state after it is unknown, so the
+      // next line starts over from the initial state
+      if (line >= startLine) {
+        result.push([]);
+      }
+      state = vsctm.INITIAL;
+      continue;
+    }
+    const tokenized = grammar.tokenizeLine2(text, state, TOKENIZE_BUDGET_MS);
+    state = tokenized.ruleStack;
+    if (line + 1 === states.length) {
+      states.push(state);
+    }
+    if (line < startLine) {
+      continue;
+    }
+    const spans: TokenSpan[] = [];
+    const tokens = tokenized.tokens;
+    for (let i = 0; i < tokens.length; i += 2) {
+      const start = tokens[i];
+      const end = i + 2 < tokens.length ? tokens[i + 2] : text.length;
+      if (end > start) {
+        spans.push({ start, end, className: tokenClassName(tokens[i + 1]) });
+      }
+    }
+    result.push(spans);
+  }
+  return result;
+}
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+
+import { fuzzyMatch, fuzzyMatchPath, fuzzyMatchResult, fuzzyMatchTerms, highlightRanges } from '../../fuzzy';
+
+suite('Fuzzy Match Test Suite', () => {
+	test('Pattern characters must appear in order', () => {
+		assert.ok(fuzzyMatch('abc', 'a_b_c'));
+		assert.strictEqual(fuzzyMatch('acb', 'a_b_c'), undefined);
+		assert.strictEqual(fuzzyMatch('abcd', 'abc'), undefined);
+	});
+
+	test('Smart case: uppercase in the pattern makes it case sensitive', () => {
+		assert.ok(fuzzyMatch('foo', 'FooBar'));
+		assert.ok(fuzzyMatch('Foo', 'FooBar'));
+		assert.strictEqual(fuzzyMatch('FOO', 'FooBar'), undefined);
+	});
+
+	test('Positions prefer word boundaries and consecutive runs', () => {
+		assert.deepStrictEqual(fuzzyMatch('fb', 'xfoo_bar')!.positions, [1, 5]);
+		assert.deepStrictEqual(fuzzyMatch('bar', 'b_a_r bar')!.positions, [6, 7, 8]);
+		assert.deepStrictEqual(fuzzyMatch('gs', 'getUserSettings')!.positions, [0, 7]);
+	});
+
+	test('Boundary and consecutive matches score higher than scattered ones', () => {
+		const score = (pattern: string, text: string) => fuzzyMatch(pattern, text)!.score;
+		assert.ok(score('test', 'src/test/a.ts') > score('test', 'the_estimate.ts'));
+		assert.ok(score('util', 'src/util.ts') > score('util', 'src/futil.ts'));
+		assert.ok(score('ab', 'a/b') > score('ab', 'axxb'));
+	});
+
+	test('All terms must match and positions are merged', () => {
+		const match = fuzzyMatchTerms('bar  foo', 'foo.bar');
+		assert.deepStrictEqual(match!.positions, [0, 1, 2, 4, 5, 6]);
+		assert.strictEqual(fuzzyMatchTerms('foo baz', 'foo.bar'), undefined);
+		assert.deepStrictEqual(fuzzyMatchTerms(' ', 'x'), { score: 0, positions: [] });
+	});
+
+	test('Grep hits match on path and text with positions for each', () => {
+		assert.deepStrictEqual(fuzzyMatchResult('a.ts foo', 'src/a.ts', 'let foo'), {
+			score: fuzzyMatchTerms('a.ts foo', 'src/a.ts let foo')!.score,
+			pathPositions: [4, 5, 6, 7],
+			textPositions: [4, 5, 6],
+		});
+		assert.strictEqual(fuzzyMatchResult('zzz', 'src/a.ts', 'let foo'), undefined);
+	});
+
+	test('File paths prefer matches in the file name', () => {
+		const score = (query: string, filePath: string) => fuzzyMatchPath(query, filePath)!.score;
+		assert.ok(score('button', 'src/Button.tsx') > score('button', 'button/src/index.ts'));
+		assert.ok(score('ts', 'src/tsconfig.json') > score('ts', 'src/tools/search.js'));
+		assert.deepStrictEqual(fuzzyMatchPath('src foo', 'src/lib/foo.ts')!.positions, [0, 1, 2, 8, 9, 10]);
+		assert.strictEqual(fuzzyMatchPath('lib bar', 'src/lib/foo.ts'), undefined);
+	});
+
+	test('Highlight ranges join consecutive positions within a part', () => {
+		const positions = [0, 1, 2, 8, 9, 10];
+		assert.deepStrictEqual(highlightRanges(positions), [[0, 3], [8, 11]]);
+		assert.deepStrictEqual(highlightRanges(positions, 8), [[0, 3]]);
+		assert.deepStrictEqual(highlightRanges(positions, 0, 8), [[0, 3]]);
+		assert.deepStrictEqual(highlightRanges(positions, 2, 9), [[0, 1], [6, 7]]);
+	});
+});
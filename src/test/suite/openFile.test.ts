@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { openMatch } from '../../openFile';
+
+suite('Open File Test Suite', () => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'livegrep-'));
+	const file = (name: string) => {
+		const filePath = path.join(dir, name);
+		fs.writeFileSync(filePath, `${name}\n`);
+		return filePath;
+	};
+
+	teardown(() => vscode.commands.executeCommand('workbench.action.closeAllEditors'));
+
+	test('Background opens beside the active group keep its editor and the focus', async () => {
+		// The first group stands in for the webview, the second shows what Beside resolves to
+		const searching = await vscode.window.showTextDocument(vscode.Uri.file(file('a.txt')), { viewColumn: vscode.ViewColumn.One });
+		const beside = await vscode.window.showTextDocument(vscode.Uri.file(file('b.txt')), { viewColumn: vscode.ViewColumn.Two });
+		await vscode.window.showTextDocument(searching.document, { viewColumn: vscode.ViewColumn.One });
+
+		await openMatch(file('c.txt'), 1, 1, 'background', vscode.ViewColumn.Beside);
+
+		assert.strictEqual(vscode.window.activeTextEditor?.document, searching.document);
+		const shown = vscode.window.visibleTextEditors.find((editor) => editor.viewColumn === vscode.ViewColumn.Two);
+		assert.strictEqual(shown?.document, beside.document);
+		const tabs = vscode.window.tabGroups.all.find((group) => group.viewColumn === vscode.ViewColumn.Two)!.tabs;
+		assert.ok(tabs.some((tab) => tab.label === 'c.txt'));
+	});
+});
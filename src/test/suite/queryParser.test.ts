@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+
+import { parseQuery, toRgArgs, isCaseInsensitive, splitRefinement, quoteLiteral } from '../../queryParser';
+
+suite('Query Parser Test Suite', () => {
+	test('Bare words are joined into one regex pattern', () => {
+		const parsed = parseQuery('foo  bar.*');
+		assert.strictEqual(parsed.pattern, 'foo bar.*');
+		assert.strictEqual(parsed.fixedString, false);
+		assert.strictEqual(parsed.caseMode, 'smart');
+	});
+
+	test('A quoted phrase is searched literally with its whitespace', () => {
+		const parsed = parseQuery('"foo  (bar)"');
+		assert.strictEqual(parsed.pattern, 'foo  (bar)');
+		assert.strictEqual(parsed.fixedString, true);
+		assert.deepStrictEqual(parsed.nodes, [{ kind: 'term', text: 'foo  (bar)', quoted: true }]);
+	});
+
+	test('Quoted phrases mixed with words are escaped inside the regex', () => {
+		const parsed = parseQuery(`fn\\w+ 'a.b'`);
+		assert.strictEqual(parsed.pattern, 'fn\\w+ a\\.b');
+		assert.strictEqual(parsed.fixedString, false);
+	});
+
+	test('Apostrophes inside words are not quotes', () => {
+		assert.strictEqual(parseQuery(`don't panic`).pattern, `don't panic`);
+	});
+
+	test('Case, word and fixed-string flags', () => {
+		assert.strictEqual(parseQuery('-s foo').caseMode, 'sensitive');
+		assert.strictEqual(parseQuery('--ignore-case foo').caseMode, 'insensitive');
+		const parsed = parseQuery('-wF a.b');
+		assert.strictEqual(parsed.wordBoundary, true);
+		assert.strictEqual(parsed.fixedString, true);
+		assert.strictEqual(parsed.pattern, 'a.b');
+	});
+
+	test('Smart case only ignores case for lowercase patterns', () => {
+		assert.strictEqual(isCaseInsensitive(parseQuery('foo')), true);
+		assert.strictEqual(isCaseInsensitive(parseQuery('Foo')), false);
+		assert.strictEqual(isCaseInsensitive(parseQuery('-i Foo')), true);
+	});
+
+	test('Type and glob filters with separate and attached values', () => {
+		const parsed = parseQuery(`-t ts -Tjs -g '!*.test.ts' --iglob=*.MD --type=rust foo`);
+		assert.deepStrictEqual(parsed.types, ['ts', 'rust']);
+		assert.deepStrictEqual(parsed.excludedTypes, ['js']);
+		assert.deepStrictEqual(parsed.globs, [
+			{ pattern: '!*.test.ts', caseInsensitive: false },
+			{ pattern: '*.MD', caseInsensitive: true },
+		]);
+		assert.strictEqual(parsed.pattern, 'foo');
+	});
+
+	test('Inline path: and file: filters', () => {
+		const parsed = parseQuery(`path:"src/my dir" file:*.ts needle`);
+		assert.deepStrictEqual(parsed.paths, ['src/my dir']);
+		assert.deepStrictEqual(parsed.globs, [{ pattern: '*.ts', caseInsensitive: false }]);
+		assert.strictEqual(parsed.pattern, 'needle');
+	});
+
+	test('Incomplete filters and options are left out', () => {
+		const parsed = parseQuery('foo path: -t');
+		assert.strictEqual(parsed.pattern, 'foo');
+		assert.deepStrictEqual(parsed.paths, []);
+		assert.deepStrictEqual(parsed.types, []);
+	});
+
+	test('Unknown options pass through, known value options keep their value', () => {
+		const parsed = parseQuery('-C 3 --multiline -x foo');
+		assert.deepStrictEqual(parsed.extraArgs, ['-C', '3', '--multiline', '-x']);
+		assert.strictEqual(parsed.pattern, 'foo');
+	});
+
+	test('Everything after -- is pattern', () => {
+		const parsed = parseQuery('-- -w path:x');
+		assert.strictEqual(parsed.pattern, '-w path:x');
+		assert.strictEqual(parsed.wordBoundary, false);
+	});
+
+	test('Defaults are overridden by inline flags', () => {
+		const defaults = { caseMode: 'insensitive' as const, wordBoundary: true, fixedString: false };
+		assert.strictEqual(parseQuery('foo', defaults).caseMode, 'insensitive');
+		assert.strictEqual(parseQuery('foo', defaults).wordBoundary, true);
+		assert.strictEqual(parseQuery('-s foo', defaults).caseMode, 'sensitive');
+	});
+
+	test('rg arguments end with the pattern and search paths', () => {
+		assert.deepStrictEqual(toRgArgs(parseQuery('-w -t ts foo')), [
+			'--smart-case', '--word-regexp', '--type', 'ts', '-e', 'foo', '--', '.',
+		]);
+		assert.deepStrictEqual(toRgArgs(parseQuery('path:src -- -bar')).slice(-4), [
+			'-e', '-bar', '--', 'src',
+		]);
+	});
+
+	test('The scope\'s file list is searched unless the query names paths', () => {
+		assert.deepStrictEqual(toRgArgs(parseQuery('foo'), ['a.ts', 'b/c.ts']).slice(-3), ['--', 'a.ts', 'b/c.ts']);
+		assert.deepStrictEqual(toRgArgs(parseQuery('path:src foo'), ['a.ts']).slice(-2), ['--', 'src']);
+	});
+
+	test('Globs and types leave the scope\'s file list as it is', () => {
+		// rg searches files it is given by name whatever the filters say
+		assert.deepStrictEqual(toRgArgs(parseQuery('-g *.md -t py foo'), ['a.ts', 'b/c.ts']), [
+			'--smart-case', '--type', 'py', '--glob', '*.md', '-e', 'foo', '--', 'a.ts', 'b/c.ts',
+		]);
+	});
+
+	test('Quoted literals search for the text as it is', () => {
+		for (const text of ['a  b > c', '-w foo(', 'say "hi"', `it's "quoted"`, 'C:\\dir\\', `a\\"b's`, '\\\\x\\\\']) {
+			const query = quoteLiteral(text);
+			assert.strictEqual(splitRefinement(query).refine, '');
+			const parsed = parseQuery(query);
+			assert.strictEqual(parsed.pattern, text);
+			assert.strictEqual(parsed.fixedString, true);
+		}
+	});
+
+	test('Backslashes escape only before a quote', () => {
+		assert.strictEqual(parseQuery('"a\\b"').pattern, 'a\\b');
+		assert.strictEqual(parseQuery('"C:\\dir\\\\"').pattern, 'C:\\dir\\');
+		assert.strictEqual(parseQuery('"say \\"hi\\""').pattern, 'say "hi"');
+		assert.deepStrictEqual(splitRefinement('"a\\\\"  b'), { search: '"a\\\\"', refine: 'b' });
+	});
+
+	test('Two spaces or ">" split off the fuzzy refinement', () => {
+		assert.deepStrictEqual(splitRefinement('foo bar'), { search: 'foo bar', refine: '' });
+		assert.deepStrictEqual(splitRefinement('foo  bar baz'), { search: 'foo', refine: 'bar baz' });
+		assert.deepStrictEqual(splitRefinement('-w foo > src ts'), { search: '-w foo ', refine: 'src ts' });
+		assert.deepStrictEqual(splitRefinement('foo >bar'), { search: 'foo ', refine: 'bar' });
+		assert.deepStrictEqual(splitRefinement('foo  '), { search: 'foo', refine: '' });
+	});
+
+	test('Separators inside phrases and words are part of the query', () => {
+		assert.deepStrictEqual(splitRefinement('"a  b" c'), { search: '"a  b" c', refine: '' });
+		assert.deepStrictEqual(splitRefinement('a->b x=>y'), { search: 'a->b x=>y', refine: '' });
+		assert.deepStrictEqual(splitRefinement('path:"x  y"  z'), { search: 'path:"x  y"', refine: 'z' });
+		assert.deepStrictEqual(splitRefinement(`don't  x`), { search: `don't`, refine: 'x' });
+	});
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { applyReplacements, createReplacer } from '../../replace';
+import { RgMatch } from '../../rgSearch';
+
+suite('Replace Test Suite', () => {
+	test('Every match on a line counts as replaced', async () => {
+		const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'livegrep-')), 'a.txt');
+		fs.writeFileSync(filePath, 'foo bar foo\n');
+		const match: RgMatch = {
+			filePath,
+			fileName: 'a.txt',
+			relativePath: 'a.txt',
+			lineNumber: 1,
+			column: 1,
+			text: 'foo bar foo',
+			submatches: [
+				{ match: 'foo', start: 0, end: 3 },
+				{ match: 'foo', start: 8, end: 11 },
+			],
+			contextBefore: [],
+			contextAfter: [],
+		};
+		const replacer = createReplacer('foo', 'baz', { ignoreCase: false, fixedString: true });
+
+		const summary = await applyReplacements([match], replacer);
+
+		assert.deepStrictEqual(summary, { replaced: 2, files: 1, skipped: 0 });
+		const doc = await vscode.workspace.openTextDocument(filePath);
+		assert.strictEqual(doc.lineAt(0).text, 'baz bar baz');
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+
+import { ResultLocation, formatResults, parseVimgrep } from '../../resultFormats';
+
+const results: ResultLocation[] = [
+	{ path: 'src/a.ts', lineNumber: 3, column: 7, text: 'const foo = 1;', ranges: [{ start: 6, end: 9 }] },
+	{ path: 'docs/b c.md', lineNumber: 10, column: 1, text: 'say "hi", `foo` | bar' },
+];
+
+suite('Result Formats Test Suite', () => {
+	test('Quickfix lines are path:line:col:text', () => {
+		assert.strictEqual(
+			formatResults(results, 'vimgrep'),
+			'src/a.ts:3:7:const foo = 1;\ndocs/b c.md:10:1:say "hi", `foo` | bar\n'
+		);
+	});
+
+	test('JSON keeps the match ranges', () => {
+		const parsed = JSON.parse(formatResults(results, 'json'));
+		assert.deepStrictEqual(parsed[0], {
+			path: 'src/a.ts', line: 3, column: 7, text: 'const foo = 1;', ranges: [{ start: 6, end: 9 }],
+		});
+		assert.deepStrictEqual(parsed[1].ranges, []);
+	});
+
+	test('CSV quotes fields with commas and quotes', () => {
+		assert.strictEqual(
+			formatResults(results, 'csv'),
+			'path,line,column,text\nsrc/a.ts,3,7,const foo = 1;\ndocs/b c.md,10,1,"say ""hi"", `foo` | bar"\n'
+		);
+	});
+
+	test('Markdown rows link to the line and escape pipes', () => {
+		const lines = formatResults(results, 'markdown').trim().split('\n');
+		assert.strictEqual(lines.length, 4);
+		assert.strictEqual(lines[2], '| [src/a.ts:3](src/a.ts#L3) | `const foo = 1;` |');
+		assert.strictEqual(lines[3], '| [docs/b c.md:10](docs/b%20c.md#L10) | `` say "hi", `foo` \\| bar `` |');
+	});
+
+	test('Markdown link targets encode every path segment', () => {
+		const [, , row] = formatResults([{ path: 'notes/#1 (draft)?.md', lineNumber: 2, column: 1, text: 'x' }], 'markdown').split('\n');
+		assert.strictEqual(row, '| [notes/#1 (draft)?.md:2](notes/%231%20%28draft%29%3F.md#L2) | `x` |');
+	});
+
+	test('Exported quickfix lines read back the same', () => {
+		const read = parseVimgrep(formatResults(results, 'vimgrep'));
+		assert.deepStrictEqual(read, results.map(({ path, lineNumber, column, text }) => ({ path, lineNumber, column, text })));
+	});
+
+	test('Columns are optional and other lines are skipped', () => {
+		assert.deepStrictEqual(parseVimgrep('a.ts:5:text: with colons\nnot a result\n\r\n'), [
+			{ path: 'a.ts', lineNumber: 5, column: 1, text: 'text: with colons' },
+		]);
+	});
+
+	test('Windows drive letters stay in the path', () => {
+		assert.deepStrictEqual(parseVimgrep('C:\\src\\a.ts:12:4:foo'), [
+			{ path: 'C:\\src\\a.ts', lineNumber: 12, column: 4, text: 'foo' },
+		]);
+	});
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { RgMatch, byteOffsetToCharIndex, createRgMatchParser } from '../../rgSearch';
+
+const dir = path.resolve('/work');
+
+function event(type: string, data: object): string {
+	return JSON.stringify({ type, data });
+}
+
+function line(type: 'match' | 'context', lineNumber: number, text: string, submatches: object[] = []): string {
+	// eslint-disable-next-line @typescript-eslint/naming-convention
+	return event(type, { path: { text: 'a.ts' }, lines: { text: text + '\n' }, line_number: lineNumber, submatches });
+}
+
+function parse(lines: string[]): RgMatch[] {
+	const matches: RgMatch[] = [];
+	const parser = createRgMatchParser(dir, (match) => matches.push(match));
+	lines.forEach(parser.push);
+	parser.finish();
+	return matches;
+}
+
+suite('Rg Search Test Suite', () => {
+	test('Byte offsets count multi-byte characters once', () => {
+		assert.strictEqual(byteOffsetToCharIndex('héllo foo', 7), 6);
+		assert.strictEqual(byteOffsetToCharIndex('plain', 3), 3);
+	});
+
+	test('Matches carry their path, line and character column', () => {
+		const [match] = parse([
+			event('begin', { path: { text: 'a.ts' } }),
+			line('match', 4, 'héllo foo', [{ match: { text: 'foo' }, start: 7, end: 10 }]),
+			event('end', { path: { text: 'a.ts' } }),
+		]);
+		assert.strictEqual(match.filePath, path.join(dir, 'a.ts'));
+		assert.strictEqual(match.relativePath, 'a.ts');
+		assert.strictEqual(match.lineNumber, 4);
+		assert.strictEqual(match.column, 7);
+		assert.strictEqual(match.text, 'héllo foo');
+		assert.deepStrictEqual(match.submatches, [{ match: 'foo', start: 7, end: 10 }]);
+	});
+
+	test('Context lines go to the match they touch', () => {
+		const matches = parse([
+			event('begin', { path: { text: 'a.ts' } }),
+			line('context', 1, 'one'),
+			line('match', 2, 'two'),
+			line('context', 3, 'three'),
+			line('context', 7, 'seven'),
+			line('match', 8, 'eight'),
+			line('context', 9, 'nine'),
+			event('end', { path: { text: 'a.ts' } }),
+		]);
+		assert.deepStrictEqual(matches.map((m) => m.lineNumber), [2, 8]);
+		assert.deepStrictEqual(matches[0].contextBefore, [{ lineNumber: 1, text: 'one' }]);
+		assert.deepStrictEqual(matches[0].contextAfter, [{ lineNumber: 3, text: 'three' }]);
+		assert.deepStrictEqual(matches[1].contextBefore, [{ lineNumber: 7, text: 'seven' }]);
+		assert.deepStrictEqual(matches[1].contextAfter, [{ lineNumber: 9, text: 'nine' }]);
+	});
+
+	test('Context between close matches belongs to both', () => {
+		const matches = parse([
+			line('match', 1, 'one'),
+			line('context', 2, 'two'),
+			line('match', 3, 'three'),
+		]);
+		assert.deepStrictEqual(matches[0].contextAfter, [{ lineNumber: 2, text: 'two' }]);
+		assert.deepStrictEqual(matches[1].contextBefore, [{ lineNumber: 2, text: 'two' }]);
+		assert.deepStrictEqual(matches[1].contextAfter, []);
+	});
+});
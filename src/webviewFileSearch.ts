@@ -0,0 +1,656 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { SearchHistory } from "./history";
+import { FrecencyStore } from "./frecency";
+import { createFileFinder, recentFilesIn } from "./fileSearch";
+import { OpenAction, keepsPickerOpen, openMatch } from "./openFile";
+import { getFilePreview, getPreviewChunk } from "./webviewSearch";
+import { getTokenStyles, onDidChangeTokenStyles } from "./syntaxHighlight";
+import { ResolvedScope, registerScopedCommands, stepScope } from "./scope";
+
+// The file finder in a webview panel: matching files on the left, the top
+// of the selected one on the right, laid out like the grep webview
+
+// What the webview's list needs of a file
+interface WebviewFile {
+  filePath: string;
+  fileName: string;
+  relativePath: string;
+  // Matched characters of relativePath
+  positions: number[];
+}
+
+function getFileFinderContent(initialQuery?: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>LiveGrep Find Files</title>
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
+    <style id="tokenStyles"></style>
+    <style>
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            height: 100vh;
+            display: flex;
+            flex-direction: column;
+        }
+
+        .search-container {
+            padding: 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            background-color: var(--vscode-sideBar-background);
+        }
+
+        .search-row {
+            display: flex;
+            gap: 6px;
+        }
+
+        .scope-button {
+            padding: 4px 10px;
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 3px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            cursor: pointer;
+            font-family: inherit;
+            font-size: inherit;
+            flex-shrink: 0;
+        }
+
+        .search-status {
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+            margin-top: 5px;
+            min-height: 16px;
+        }
+
+        .search-input {
+            width: 100%;
+            padding: 8px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 3px;
+            font-family: inherit;
+            font-size: inherit;
+        }
+
+        .search-input:focus {
+            outline: none;
+            border-color: var(--vscode-focusBorder);
+        }
+
+        .main-content {
+            flex: 1;
+            display: flex;
+            overflow: hidden;
+        }
+
+        .results-panel {
+            width: 40%;
+            border-right: 1px solid var(--vscode-panel-border);
+            overflow-y: auto;
+            background-color: var(--vscode-sideBar-background);
+            scrollbar-width: none; /* Firefox */
+        }
+
+        .results-panel::-webkit-scrollbar {
+            display: none; /* WebKit */
+        }
+
+        .preview-panel {
+            flex: 1;
+            overflow-y: auto;
+            background-color: var(--vscode-editor-background);
+            padding: 10px;
+            scrollbar-width: none; /* Firefox */
+        }
+
+        .preview-panel::-webkit-scrollbar {
+            display: none; /* WebKit */
+        }
+
+        .file-item {
+            display: flex;
+            align-items: baseline;
+            gap: 8px;
+            height: 22px;
+            line-height: 22px;
+            padding: 0 12px;
+            cursor: pointer;
+            white-space: nowrap;
+            overflow: hidden;
+        }
+
+        .file-item:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        .file-item.selected {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+
+        .file-name {
+            font-weight: bold;
+        }
+
+        .file-path {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            font-size: 0.9em;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .file-item.selected .file-path {
+            color: inherit;
+        }
+
+        /* Characters matched by the query */
+        .fuzzy-match {
+            font-weight: bold;
+            color: var(--vscode-list-highlightForeground);
+        }
+
+        .preview-header {
+            padding: 10px 0;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            margin-bottom: 10px;
+            font-weight: bold;
+            color: var(--vscode-textLink-foreground);
+        }
+
+        .preview-content {
+            color: var(--vscode-editor-foreground);
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            line-height: 1.4;
+        }
+
+        .line {
+            display: flex;
+            padding: 2px 0;
+        }
+
+        .line-number {
+            color: var(--vscode-editorLineNumber-foreground);
+            width: 50px;
+            text-align: right;
+            margin-right: 10px;
+            user-select: none;
+            flex-shrink: 0;
+        }
+
+        .line-content {
+            flex: 1;
+            white-space: pre-wrap;
+            word-wrap: break-word;
+            overflow-wrap: break-word;
+        }
+
+        .no-results {
+            text-align: center;
+            padding: 20px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .error {
+            color: var(--vscode-errorForeground);
+            padding: 10px;
+        }
+    </style>
+</head>
+<body>
+    <div class="search-container">
+        <div class="search-row">
+            <input type="text" class="search-input" placeholder="Enter a file name pattern..." id="searchInput">
+            <button class="scope-button" id="narrowScopeButton" title="Narrow Scope">&minus;</button>
+            <button class="scope-button" id="widenScopeButton" title="Widen Scope">+</button>
+        </div>
+        <div class="search-status" id="searchStatus"></div>
+    </div>
+    <div class="main-content">
+        <div class="results-panel" id="resultsPanel">
+            <div class="no-results">Enter a file name pattern to begin</div>
+        </div>
+        <div class="preview-panel" id="previewPanel">
+            <div class="no-results">Select a file to preview</div>
+        </div>
+    </div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        const searchInput = document.getElementById('searchInput');
+        const resultsPanel = document.getElementById('resultsPanel');
+        const previewPanel = document.getElementById('previewPanel');
+        const searchStatus = document.getElementById('searchStatus');
+
+        let currentFiles = [];
+        let selectedIndex = -1;
+        let searchTimeout;
+        let searchGeneration = 0;
+        // Whether the list shows recent files for an empty query
+        let showingRecent = false;
+        // Previous patterns, most recent first, and the position while stepping through them
+        let searchHistory = [];
+        let historyIndex = -1;
+        let historyDraft = '';
+        // Lines of the previewed file shown so far
+        let previewWindow;
+
+        searchInput.addEventListener('input', (e) => {
+            clearTimeout(searchTimeout);
+            historyIndex = -1;
+            searchTimeout = setTimeout(() => {
+                performSearch(e.target.value.trim());
+            }, 150);
+        });
+
+        function performSearch(query) {
+            searchGeneration++;
+            searchStatus.textContent = query ? 'Searching...' : '';
+            vscode.postMessage({ command: 'search', query, generation: searchGeneration });
+        }
+
+        function showFiles(message) {
+            currentFiles = message.files;
+            showingRecent = message.recent;
+            selectedIndex = -1;
+            if (currentFiles.length === 0) {
+                const text = showingRecent ? 'Enter a file name pattern to begin' : 'No files found';
+                resultsPanel.innerHTML = \`<div class="no-results">\${text}</div>\`;
+                previewPanel.innerHTML = \`<div class="no-results">\${text}</div>\`;
+                previewWindow = undefined;
+                searchStatus.textContent = showingRecent ? '' : text;
+                return;
+            }
+            resultsPanel.innerHTML = currentFiles.map((file, index) => {
+                const dir = file.relativePath.substring(0, file.relativePath.length - file.fileName.length);
+                const positions = new Set(file.positions);
+                return \`
+                    <div class="file-item" data-index="\${index}">
+                        <span class="file-name">\${highlight(file.fileName, positions, dir.length)}</span>
+                        <span class="file-path">\${highlight(dir, positions, 0)}</span>
+                    </div>
+                \`;
+            }).join('');
+            const count = \`\${currentFiles.length} file\${currentFiles.length === 1 ? '' : 's'}\`;
+            searchStatus.textContent = showingRecent ? \`\${count} opened recently\` : \`Found \${count}\`;
+            selectFile(0);
+        }
+
+        // Wraps the characters at positions (offset into the relative path) in highlights
+        function highlight(text, positions, offset) {
+            let html = '';
+            for (let i = 0; i < text.length; i++) {
+                const char = escapeHtml(text[i]);
+                html += positions.has(offset + i) ? \`<span class="fuzzy-match">\${char}</span>\` : char;
+            }
+            return html;
+        }
+
+        function selectFile(index) {
+            if (index < 0 || index >= currentFiles.length) return;
+            resultsPanel.querySelectorAll('.file-item.selected').forEach((item) => {
+                item.classList.remove('selected');
+            });
+            const item = resultsPanel.querySelector(\`.file-item[data-index="\${index}"]\`);
+            if (item) {
+                item.classList.add('selected');
+                item.scrollIntoView({ block: 'nearest' });
+            }
+            selectedIndex = index;
+            vscode.postMessage({
+                command: 'previewFile',
+                filePath: currentFiles[index].filePath,
+                index,
+                generation: searchGeneration
+            });
+        }
+
+        // Enter opens in place, Ctrl+Enter to the side, Ctrl+Shift+Enter in a
+        // new tab group, Shift+Enter keeps the panel open, Alt+Enter opens in
+        // the background
+        function openActionForKey(e) {
+            if ((e.ctrlKey || e.metaKey) && e.shiftKey) return 'newGroup';
+            if (e.ctrlKey || e.metaKey) return 'side';
+            if (e.shiftKey) return 'keepOpen';
+            if (e.altKey) return 'background';
+            return 'current';
+        }
+
+        function openSelectedFile(action = 'current') {
+            const file = currentFiles[selectedIndex];
+            if (!file) return;
+            const query = searchInput.value.trim();
+            if (query) {
+                searchHistory = [query, ...searchHistory.filter((entry) => entry !== query)];
+            }
+            vscode.postMessage({ command: 'openFile', filePath: file.filePath, query, action });
+        }
+
+        // direction 1 steps to an older pattern, -1 back towards the draft
+        function stepHistory(direction) {
+            const nextIndex = historyIndex + direction;
+            if (nextIndex < -1 || nextIndex >= searchHistory.length) return;
+            if (historyIndex === -1) {
+                historyDraft = searchInput.value;
+            }
+            historyIndex = nextIndex;
+            searchInput.value = historyIndex === -1 ? historyDraft : searchHistory[historyIndex];
+            clearTimeout(searchTimeout);
+            searchTimeout = setTimeout(() => {
+                performSearch(searchInput.value.trim());
+            }, 150);
+        }
+
+        document.getElementById('narrowScopeButton').addEventListener('click', () => {
+            vscode.postMessage({ command: 'changeScope', direction: -1 });
+        });
+        document.getElementById('widenScopeButton').addEventListener('click', () => {
+            vscode.postMessage({ command: 'changeScope', direction: 1 });
+        });
+
+        resultsPanel.addEventListener('click', (e) => {
+            const item = e.target.closest('.file-item');
+            if (item) {
+                selectFile(Number(item.dataset.index));
+            }
+        });
+
+        resultsPanel.addEventListener('dblclick', (e) => {
+            if (e.target.closest('.file-item')) {
+                openSelectedFile();
+            }
+        });
+
+        previewPanel.addEventListener('scroll', () => {
+            // Load more of the file about a screen before reaching the end
+            const w = previewWindow;
+            if (!w || w.loading || w.endLine >= w.totalLines) return;
+            if (previewPanel.scrollHeight - previewPanel.scrollTop - previewPanel.clientHeight < previewPanel.clientHeight) {
+                w.loading = true;
+                vscode.postMessage({
+                    command: 'previewMore',
+                    filePath: w.filePath,
+                    index: w.index,
+                    fromLine: w.endLine + 1,
+                    generation: searchGeneration
+                });
+            }
+        });
+
+        document.addEventListener('keydown', (e) => {
+            // Up/Down walk the history while there are no files to navigate,
+            // Alt+Up/Down walk it at any time
+            const inInput = e.target === searchInput;
+            if (inInput && (e.key === 'ArrowDown' || e.key === 'ArrowUp') && (e.altKey || currentFiles.length === 0)) {
+                e.preventDefault();
+                stepHistory(e.key === 'ArrowUp' ? 1 : -1);
+                return;
+            }
+            if (e.key === 'ArrowDown' || (e.ctrlKey && e.key === 'n')) {
+                e.preventDefault();
+                selectFile(selectedIndex + 1);
+            } else if (e.key === 'ArrowUp' || (e.ctrlKey && e.key === 'p')) {
+                e.preventDefault();
+                selectFile(selectedIndex - 1);
+            } else if (e.key === 'Enter') {
+                e.preventDefault();
+                openSelectedFile(openActionForKey(e));
+            } else if (e.ctrlKey && e.key === 'v' && !inInput) {
+                // Vertical split, as in Telescope; the input keeps Ctrl+V for paste
+                e.preventDefault();
+                openSelectedFile('newGroup');
+            }
+        });
+
+        function displayPreview(message) {
+            // A later selection already asked for another preview
+            if (message.index !== selectedIndex) return;
+            const file = currentFiles[message.index];
+            previewPanel.innerHTML = \`
+                <div class="preview-header">\${escapeHtml(file.relativePath)}</div>
+                <div class="preview-content" id="previewContent">\${message.html}</div>
+            \`;
+            previewPanel.scrollTop = 0;
+            previewWindow = {
+                filePath: file.filePath,
+                index: message.index,
+                endLine: message.endLine,
+                totalLines: message.totalLines,
+                loading: false
+            };
+        }
+
+        function addPreviewChunk(message) {
+            const w = previewWindow;
+            const content = document.getElementById('previewContent');
+            if (!w || !content || message.index !== w.index) return;
+            w.loading = false;
+            if (message.startLine !== w.endLine + 1) return;
+            content.insertAdjacentHTML('beforeend', message.html);
+            w.endLine = message.endLine;
+        }
+
+        function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = text;
+            return div.innerHTML;
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+
+            // Ignore messages that belong to an outdated query
+            if (message.generation !== undefined && message.generation !== searchGeneration) {
+                return;
+            }
+
+            switch (message.command) {
+                case 'files':
+                    showFiles(message);
+                    break;
+                case 'filePreview':
+                    displayPreview(message);
+                    break;
+                case 'previewChunk':
+                    addPreviewChunk(message);
+                    break;
+                case 'history':
+                    searchHistory = message.entries;
+                    break;
+                case 'scopeChanged':
+                    // Same query, new directories
+                    performSearch(searchInput.value.trim());
+                    break;
+                case 'tokenStyles':
+                    document.getElementById('tokenStyles').textContent = message.css;
+                    // Redraw the preview with the new theme's token classes
+                    if (message.refresh) {
+                        selectFile(selectedIndex);
+                    }
+                    break;
+            }
+        });
+
+        searchInput.value = ${JSON.stringify(initialQuery || '')};
+        searchInput.focus();
+
+        // Notify extension that webview is ready for the history and the first list
+        vscode.postMessage({ command: 'ready' });
+        performSearch(searchInput.value.trim());
+    </script>
+</body>
+</html>`;
+}
+
+function toWebviewFile(filePath: string, relativePath: string, positions: number[]): WebviewFile {
+  return { filePath, fileName: path.basename(filePath), relativePath, positions };
+}
+
+export function createWebviewFileSearchPanel(
+  context: vscode.ExtensionContext,
+  fdPath: string,
+  rgPath: string,
+  scope: ResolvedScope,
+  workspaceFolders: string[] | undefined,
+  history: SearchHistory,
+  frecency: FrecencyStore,
+  initialQuery?: string,
+  contextLines: number = 20,
+  autoClose: boolean = true
+) {
+  const panel = vscode.window.createWebviewPanel(
+    'livegrepFileWebview',
+    `LiveGrep: Find Files in ${scope.label}`,
+    vscode.ViewColumn.One,
+    {
+      enableScripts: true,
+      localResourceRoots: [context.extensionUri],
+      retainContextWhenHidden: true
+    }
+  );
+
+  panel.webview.html = getFileFinderContent(initialQuery);
+
+  // The narrow and widen buttons change where the panel looks
+  let searchDirs = scope.dirs;
+  let finder = createFileFinder(fdPath, rgPath, searchDirs, frecency);
+  finder.prepare();
+
+  const postTokenStyles = (refresh: boolean) => {
+    let css = '';
+    try {
+      css = getTokenStyles();
+    } catch (error) {
+      console.error(`LiveGrep: failed to load token styles: ${error}`);
+    }
+    panel.webview.postMessage({ command: 'tokenStyles', css, refresh });
+  };
+  const themeListener = onDidChangeTokenStyles(() => postTokenStyles(true));
+  panel.onDidDispose(() => themeListener.dispose(), null, context.subscriptions);
+
+  // The top of the file, twice the context the grep preview shows around a match
+  const previewLines = Math.max(1, contextLines * 2);
+
+  panel.webview.onDidReceiveMessage(
+    async (message) => {
+      switch (message.command) {
+        case 'ready':
+          panel.webview.postMessage({
+            command: 'history',
+            entries: history.entries("files").map((entry) => entry.query)
+          });
+          postTokenStyles(false);
+          break;
+        case 'search': {
+          if (message.query === '') {
+            // Recent files until there's a pattern
+            const recent = recentFilesIn(frecency, searchDirs).map((filePath) =>
+              toWebviewFile(filePath, vscode.workspace.asRelativePath(filePath), [])
+            );
+            panel.webview.postMessage({ command: 'files', files: recent, recent: true, generation: message.generation });
+            break;
+          }
+          const current = finder;
+          const files = await current.find(message.query);
+          // The scope changed while the files were found
+          if (current !== finder) {
+            break;
+          }
+          panel.webview.postMessage({
+            command: 'files',
+            files: files.map((file) => toWebviewFile(file.filePath, file.relativePath, file.positions)),
+            recent: false,
+            generation: message.generation
+          });
+          break;
+        }
+        case 'changeScope': {
+          const nextScope = await stepScope(scope, workspaceFolders, message.direction);
+          if (!nextScope) {
+            vscode.window.showInformationMessage(`LiveGrep: Already searching the ${message.direction === 1 ? "widest" : "narrowest"} scope`);
+            break;
+          }
+          scope = nextScope;
+          searchDirs = nextScope.dirs;
+          panel.title = `LiveGrep: Find Files in ${scope.label}`;
+          finder = createFileFinder(fdPath, rgPath, searchDirs, frecency);
+          finder.prepare();
+          panel.webview.postMessage({ command: 'scopeChanged' });
+          break;
+        }
+        case 'previewFile': {
+          // Line 0 is no line, so nothing is marked as the target
+          const preview = await getFilePreview(message.filePath, 0, new Map(), previewLines);
+          panel.webview.postMessage({
+            command: 'filePreview',
+            ...preview,
+            index: message.index,
+            generation: message.generation
+          });
+          break;
+        }
+        case 'previewMore': {
+          const chunk = await getPreviewChunk(message.filePath, 0, new Map(), false, message.fromLine);
+          // Answer even when the file can't be read any more, so the preview stops waiting
+          panel.webview.postMessage({
+            command: 'previewChunk',
+            ...(chunk ?? { html: '', startLine: 0, endLine: 0, totalLines: 0 }),
+            index: message.index,
+            generation: message.generation
+          });
+          break;
+        }
+        case 'openFile': {
+          await history.add("files", message.query);
+          await frecency.record(message.filePath);
+          const openAction: OpenAction = message.action || 'current';
+          // Files opened while the panel stays open go beside it
+          await openMatch(message.filePath, 1, 1, openAction, vscode.ViewColumn.Beside);
+          if (autoClose && !keepsPickerOpen(openAction)) {
+            panel.dispose();
+          }
+          break;
+        }
+      }
+    },
+    undefined,
+    context.subscriptions
+  );
+}
+
+export function registerWebviewFileSearchCommands(
+  context: vscode.ExtensionContext,
+  fdPath: string,
+  rgPath: string,
+  workspaceFolders: string[] | undefined,
+  history: SearchHistory,
+  frecency: FrecencyStore
+) {
+  const getContextLines = () => {
+    return vscode.workspace.getConfiguration('livegrep').get<number>('contextLines') || 20;
+  };
+  
+  const getAutoCloseWebview = () => {
+    return vscode.workspace.getConfiguration('livegrep').get<boolean>('autoCloseWebview') ?? true;
+  };
+
+  // livegrep.webviewSearchFiles, livegrep.webviewSearchFilesCurrent and livegrep.webviewSearchFilesLevel_0 to _5
+  registerScopedCommands(context, "livegrep.webviewSearchFiles", workspaceFolders, (scope, initialQuery) =>
+    createWebviewFileSearchPanel(context, fdPath, rgPath, scope, workspaceFolders, history, frecency, initialQuery, getContextLines(), getAutoCloseWebview()),
+    false
+  );
+}
@@ -1,169 +1,287 @@
 import * as vscode from "vscode";
-import * as cp from "child_process";
 import { quote } from "shell-quote";
-import * as path from "path";
+import * as fs from "fs";
+import { RgMatch, SearchSession, byteOffsetToCharIndex, createSearchSession } from "./rgSearch";
+import { LineEdit, applyReplacements, computeLineEdits, createReplacer } from "./replace";
+import { SearchHistory } from "./history";
+import { OpenAction, keepsPickerOpen, openMatch } from "./openFile";
+import { ResultsStore, exportResults, toSavedResult } from "./resultsView";
+import { openResultsEditor } from "./resultsEditor";
+import { ParsedQuery, isCaseInsensitive, parseQuery, splitRefinement, toRgArgs } from "./queryParser";
+import { fuzzyMatchResult } from "./fuzzy";
+import { ResolvedScope, registerFileListCommands, registerScopedCommands, resolveScope, stepScope } from "./scope";
+import {
+  DEFAULT_TOGGLES,
+  SearchToggles,
+  TOGGLE_INFO,
+  describeToggles,
+  loadToggles,
+  saveToggles,
+  toggleArgs,
+  toQueryDefaults,
+} from "./searchToggles";
+import {
+  EMPTY_FILTERS,
+  SearchFilters,
+  filterArgs,
+  getFilterPresets,
+  listRgTypes,
+  pickFilterPreset,
+  saveFilterPreset,
+} from "./filters";
+import {
+  TokenSpan,
+  getTokenStyles,
+  highlightLines,
+  onDidChangeTokenStyles,
+} from "./syntaxHighlight";
 
 const MAX_DESC_LENGTH = 1000;
 const MAX_BUF_SIZE = 200000 * 1024;
+// How often streamed results are posted to the webview
+const RESULT_BATCH_MS = 50;
+// Lines loaded at a time when the preview is scrolled past its edges
+const PREVIEW_CHUNK_LINES = 200;
+const PREVIEW_CACHE_SIZE = 20;
 
-interface SearchResult {
-  filePath: string;
-  fileName: string;
-  lineNumber: number;
-  content: string;
-  relativePath: string;
+// The webview search panel that last had focus, for commands acting on it
+let activeSearchPanel: vscode.WebviewPanel | undefined;
+
+function webviewSearchArgs(
+  query: ParsedQuery,
+  toggles: SearchToggles,
+  filters: SearchFilters,
+  scopePaths?: string[]
+): string[] {
+  return [...toggleArgs(toggles), ...filterArgs(filters), ...toRgArgs(query, scopePaths)];
 }
 
-async function performWebviewSearchLive(
+function performWebviewSearchLive(
+  session: SearchSession,
   rgPath: string, 
   dirs: string[], 
-  query: string,
-  onResult: (result: SearchResult) => void,
+  query: ParsedQuery,
+  toggles: SearchToggles,
+  filters: SearchFilters,
+  scopePaths: string[] | undefined,
+  onResult: (result: RgMatch) => void,
   onComplete: () => void,
   onError: (error: string) => void
-): Promise<void> {
-  if (!query || query.trim() === '') {
+): void {
+  if (query.pattern === '') {
+    session.cancel();
     onComplete();
     return;
   }
 
-  let processCount = dirs.length;
-  
-  for (const dir of dirs) {
-    try {
-      const rgArgs = ["-n", "-i", query, "."];
-      const rgProcess = cp.spawn(rgPath, rgArgs, { 
-        cwd: dir,
-        stdio: ['ignore', 'pipe', 'pipe']
-      });
-
-      let buffer = '';
-      
-      rgProcess.stdout?.on('data', (data: Buffer) => {
-        buffer += data.toString();
-        const lines = buffer.split('\n');
-        
-        // Keep the last incomplete line in buffer
-        buffer = lines.pop() || '';
-        
-        // Process complete lines immediately
-        for (const line of lines) {
-          if (line.trim() === '') continue;
-          
-          const [fullPath, lineNum, ...contentParts] = line.split(":");
-          if (!fullPath || !lineNum) continue;
-          
-          const content = contentParts.join(":").trim();
-          if (content.length > MAX_DESC_LENGTH) continue;
-          
-          const fileName = path.basename(fullPath);
-          const relativePath = path.relative(dir, path.resolve(dir, fullPath));
-          
-          const result: SearchResult = {
-            filePath: path.resolve(dir, fullPath),
-            fileName,
-            lineNumber: parseInt(lineNum, 10),
-            content,
-            relativePath
-          };
-          
-          // Send result immediately as it comes in
-          onResult(result);
-        }
-      });
-
-      rgProcess.on('close', (code) => {
-        // Process any remaining buffer content
-        if (buffer.trim()) {
-          const line = buffer.trim();
-          const [fullPath, lineNum, ...contentParts] = line.split(":");
-          if (fullPath && lineNum) {
-            const content = contentParts.join(":").trim();
-            if (content.length <= MAX_DESC_LENGTH) {
-              const fileName = path.basename(fullPath);
-              const relativePath = path.relative(dir, path.resolve(dir, fullPath));
-              
-              const result: SearchResult = {
-                filePath: path.resolve(dir, fullPath),
-                fileName,
-                lineNumber: parseInt(lineNum, 10),
-                content,
-                relativePath
-              };
-              
-              onResult(result);
-            }
-          }
-        }
-        
-        processCount--;
-        if (processCount === 0) {
-          onComplete();
-        }
-      });
+  // Starting a new run kills the rg children of the previous query
+  const args = webviewSearchArgs(query, toggles, filters, scopePaths);
+  session.run(rgPath, dirs, args, {
+    onMatch: (match) => {
+      if (match.text.trim().length > MAX_DESC_LENGTH) {
+        return;
+      }
+      // Send result immediately as it comes in
+      onResult(match);
+    },
+    onComplete,
+    onError
+  });
+}
 
-      rgProcess.on('error', (error) => {
-        console.error(`Search failed in ${dir}:`, error);
-        processCount--;
-        if (processCount === 0) {
-          onComplete();
-        }
-      });
+// What the webview's result list needs of a match; the context lines and
+// submatches stay on the extension side
+interface WebviewResult {
+  filePath: string;
+  fileName: string;
+  relativePath: string;
+  lineNumber: number;
+  column: number;
+  text: string;
+}
 
-    } catch (error) {
-      console.error(`Search failed in ${dir}:`, error);
-      processCount--;
-      if (processCount === 0) {
-        onComplete();
-      }
-    }
+function toWebviewResult(match: RgMatch): WebviewResult {
+  return {
+    filePath: match.filePath,
+    fileName: match.fileName,
+    relativePath: match.relativePath,
+    lineNumber: match.lineNumber,
+    column: match.column,
+    text: match.text,
+  };
+}
+
+// Character ranges of rg's submatches on each matched line of a file, with
+// the line text rg saw so lines edited since the search are left alone
+function matchedLinesOf(matches: RgMatch[]): Map<number, MatchedLine> {
+  const lines = new Map<number, MatchedLine>();
+  for (const match of matches) {
+    lines.set(match.lineNumber, {
+      text: match.text,
+      ranges: match.submatches.map((submatch) => ({
+        start: byteOffsetToCharIndex(match.text, submatch.start),
+        end: byteOffsetToCharIndex(match.text, submatch.end),
+      })),
+    });
   }
+  return lines;
+}
+
+// Lines of the previewed file that are rendered, 1-based and inclusive
+interface PreviewWindow {
+  html: string;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+}
+
+// Recently previewed documents, most recent first, so stepping through
+// results doesn't go through openTextDocument for every preview
+let previewDocuments: { filePath: string; doc: vscode.TextDocument }[] = [];
+
+async function openPreviewDocument(filePath: string): Promise<vscode.TextDocument> {
+  const cached = previewDocuments.find((entry) => entry.filePath === filePath && !entry.doc.isClosed);
+  const doc = cached ? cached.doc : await vscode.workspace.openTextDocument(filePath);
+  previewDocuments = [
+    { filePath, doc },
+    ...previewDocuments.filter((entry) => entry.filePath !== filePath && !entry.doc.isClosed),
+  ].slice(0, PREVIEW_CACHE_SIZE);
+  return doc;
 }
 
-async function openFileAtLine(filePath: string, lineNumber: number) {
+export async function getFilePreview(filePath: string, lineNumber: number, matchedLines: Map<number, MatchedLine>, contextLines: number = 20, replaceEdits?: LineEdit[]): Promise<PreviewWindow> {
   try {
-    const doc = await vscode.workspace.openTextDocument(filePath);
-    const editor = await vscode.window.showTextDocument(doc);
-    const position = new vscode.Position(lineNumber - 1, 0);
-    editor.selection = new vscode.Selection(position, position);
-    editor.revealRange(new vscode.Range(position, position));
+    const doc = await openPreviewDocument(filePath);
+    const startLine = Math.max(1, lineNumber - contextLines);
+    const endLine = Math.min(doc.lineCount, lineNumber + contextLines);
+    const html = await renderPreviewLines(doc, startLine, endLine, lineNumber, matchedLines, replaceEdits);
+    return { html, startLine, endLine, totalLines: doc.lineCount };
   } catch (error) {
-    vscode.window.showErrorMessage(`Failed to open file: ${error}`);
+    return {
+      html: `<div class="error">Failed to load file preview: ${escapeHtml(`${error}`)}</div>`,
+      startLine: 0,
+      endLine: 0,
+      totalLines: 0
+    };
   }
 }
 
-async function getFilePreview(filePath: string, lineNumber: number, searchQuery: string, contextLines: number = 20): Promise<string> {
+// More lines of the previewed file, above or below what's already shown
+export async function getPreviewChunk(filePath: string, lineNumber: number, matchedLines: Map<number, MatchedLine>, before: boolean, fromLine: number): Promise<PreviewWindow | undefined> {
   try {
-    const doc = await vscode.workspace.openTextDocument(filePath);
-    const totalLines = doc.lineCount;
+    const doc = await openPreviewDocument(filePath);
+    const startLine = before ? Math.max(1, fromLine - PREVIEW_CHUNK_LINES) : fromLine;
+    const endLine = before ? fromLine - 1 : Math.min(doc.lineCount, fromLine + PREVIEW_CHUNK_LINES - 1);
+    if (startLine > endLine) {
+      return undefined;
+    }
+    const html = await renderPreviewLines(doc, startLine, endLine, lineNumber, matchedLines);
+    return { html, startLine, endLine, totalLines: doc.lineCount };
+  } catch {
+    return undefined;
+  }
+}
+
+async function renderPreviewLines(
+  doc: vscode.TextDocument,
+  startLine: number,
+  endLine: number,
+  lineNumber: number,
+  matchedLines: Map<number, MatchedLine>,
+  replaceEdits?: LineEdit[]
+): Promise<string> {
+  const highlighted = getPreviewHighlighting()
+    ? await highlightLines(doc, startLine - 1, endLine - 1).catch(() => undefined)
+    : undefined;
+  
+  let preview = '';
+  for (let lineNum = startLine; lineNum <= endLine; lineNum++) {
+    const line = doc.lineAt(lineNum - 1);
+    const isTargetLine = lineNum === lineNumber;
+    
+    if (isTargetLine && replaceEdits) {
+      preview += renderDiffLines(lineNum, line.text, replaceEdits);
+      continue;
+    }
     
-    const startLine = Math.max(0, lineNumber - contextLines - 1);
-    const endLine = Math.min(totalLines - 1, lineNumber + contextLines - 1);
+    const matched = matchedLines.get(lineNum);
+    const marks = matched && matched.text === line.text ? matched.ranges : [];
+    const content = renderLineContent(line.text, highlighted?.[lineNum - startLine], marks);
     
-    let preview = '';
-    for (let i = startLine; i <= endLine; i++) {
-      const line = doc.lineAt(i);
-      const lineNum = i + 1;
-      const isTargetLine = lineNum === lineNumber;
-      
-      let content = escapeHtml(line.text);
-      if (isTargetLine && searchQuery) {
-        // Highlight search term (case insensitive) after HTML escaping
-        const escapedQuery = escapeRegex(escapeHtml(searchQuery));
-        const regex = new RegExp(`(${escapedQuery})`, 'gi');
-        content = content.replace(regex, '<mark>$1</mark>');
+    preview += `<div class="line ${isTargetLine ? 'target-line' : ''} ${marks.length ? 'match-line' : ''}" data-line="${lineNum}">`;
+    preview += `<span class="line-number">${lineNum}</span>`;
+    preview += `<span class="line-content">${content}</span>`;
+    preview += `</div>`;
+  }
+  return preview;
+}
+
+interface MarkRange {
+  start: number;
+  end: number;
+}
+
+interface MatchedLine {
+  text: string;
+  ranges: MarkRange[];
+}
+
+const getPreviewHighlighting = () => {
+  return vscode.workspace.getConfiguration('livegrep').get<boolean>('previewSyntaxHighlighting') ?? true;
+};
+
+// Escaped line text with syntax token spans, and <mark>s around the ranges
+// of search matches (sorted, not overlapping)
+function renderLineContent(text: string, tokens: TokenSpan[] | undefined, marks: MarkRange[]): string {
+  const renderRange = (from: number, to: number) => {
+    if (!tokens || tokens.length === 0) {
+      return escapeHtml(text.substring(from, to));
+    }
+    let html = '';
+    for (const token of tokens) {
+      const start = Math.max(token.start, from);
+      const end = Math.min(token.end, to);
+      if (start >= end) {
+        continue;
       }
-      
-      preview += `<div class="line ${isTargetLine ? 'target-line' : ''}" data-line="${lineNum}">`;
-      preview += `<span class="line-number">${lineNum}</span>`;
-      preview += `<span class="line-content">${content}</span>`;
-      preview += `</div>`;
+      const content = escapeHtml(text.substring(start, end));
+      html += token.className ? `<span class="${token.className}">${content}</span>` : content;
     }
-    
-    return preview;
-  } catch (error) {
-    return `<div class="error">Failed to load file preview: ${error}</div>`;
+    return html;
+  };
+  
+  let html = '';
+  let offset = 0;
+  for (const mark of marks) {
+    html += renderRange(offset, mark.start);
+    html += `<mark>${renderRange(mark.start, mark.end)}</mark>`;
+    offset = mark.end;
+  }
+  return html + renderRange(offset, text.length);
+}
+
+// Renders the target line as a removed/added pair for the replace preview
+function renderDiffLines(lineNum: number, text: string, edits: LineEdit[]): string {
+  let removed = '';
+  let added = '';
+  let offset = 0;
+  for (const edit of edits) {
+    const unchanged = escapeHtml(text.substring(offset, edit.start));
+    removed += `${unchanged}<del>${escapeHtml(text.substring(edit.start, edit.end))}</del>`;
+    added += `${unchanged}<ins>${escapeHtml(edit.newText)}</ins>`;
+    offset = edit.end;
   }
+  const rest = escapeHtml(text.substring(offset));
+  
+  let html = `<div class="line target-line diff-removed" data-line="${lineNum}">`;
+  html += `<span class="line-number">-${lineNum}</span>`;
+  html += `<span class="line-content">${removed}${rest}</span>`;
+  html += `</div>`;
+  html += `<div class="line diff-added">`;
+  html += `<span class="line-number">+${lineNum}</span>`;
+  html += `<span class="line-content">${added}${rest}</span>`;
+  html += `</div>`;
+  return html;
 }
 
 function escapeHtml(text: string): string {
@@ -175,10 +293,6 @@ function escapeHtml(text: string): string {
     .replace(/'/g, '&#39;');
 }
 
-function escapeRegex(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
 function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, initialQuery?: string): string {
   return `<!DOCTYPE html>
 <html lang="en">
@@ -187,6 +301,7 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>LiveGrep Search</title>
     <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
+    <style id="tokenStyles"></style>
     <style>
         * {
             margin: 0;
@@ -233,6 +348,88 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
             border-color: var(--vscode-focusBorder);
         }
         
+        .search-row {
+            display: flex;
+            gap: 6px;
+        }
+        
+        .replace-input,
+        .replace-all-button {
+            display: none;
+        }
+        
+        body.replace-mode .replace-input,
+        body.replace-mode .replace-all-button {
+            display: block;
+        }
+        
+        .toggle-button,
+        .replace-all-button {
+            padding: 4px 10px;
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 3px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            cursor: pointer;
+            font-family: inherit;
+            font-size: inherit;
+            flex-shrink: 0;
+        }
+        
+        .filter-row {
+            display: flex;
+            gap: 6px;
+            margin-top: 6px;
+        }
+        
+        .filter-input {
+            flex: 1;
+            min-width: 0;
+            padding: 4px 8px;
+        }
+        
+        .filter-select {
+            padding: 4px;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 3px;
+            font-family: inherit;
+            font-size: inherit;
+            max-width: 160px;
+        }
+        
+        .toggle-chips {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            margin-top: 6px;
+        }
+        
+        .toggle-chip {
+            padding: 1px 8px;
+            border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+            border-radius: 10px;
+            background-color: transparent;
+            color: var(--vscode-descriptionForeground);
+            cursor: pointer;
+            font-family: inherit;
+            font-size: 0.85em;
+        }
+        
+        .toggle-chip.active {
+            background-color: var(--vscode-inputOption-activeBackground);
+            border-color: var(--vscode-inputOption-activeBorder);
+            color: var(--vscode-inputOption-activeForeground);
+        }
+        
+        .toggle-button.active,
+        .replace-all-button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border-color: var(--vscode-button-background);
+        }
+        
         .main-content {
             flex: 1;
             display: flex;
@@ -240,6 +437,7 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
         }
         
         .results-panel {
+            position: relative;
             width: 40%;
             border-right: 1px solid var(--vscode-panel-border);
             overflow-y: auto;
@@ -253,6 +451,7 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
         }
         
         .preview-panel {
+            position: relative;
             flex: 1;
             overflow-y: auto;
             background-color: var(--vscode-editor-background);
@@ -265,10 +464,26 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
             display: none; /* WebKit */
         }
         
+        .results-spacer {
+            position: relative;
+        }
+        
+        /* Only the rows in view are in the DOM, placed by their row number */
+        .result-row {
+            position: absolute;
+            left: 0;
+            right: 0;
+            height: 22px;
+            overflow: hidden;
+        }
+        
         .result-item {
-            padding: 8px 12px;
-            border-bottom: 1px solid var(--vscode-list-inactiveSelectionBackground);
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 0 12px 0 28px;
             cursor: pointer;
+            white-space: nowrap;
         }
         
         .result-item:hover {
@@ -280,26 +495,102 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
             color: var(--vscode-list-activeSelectionForeground);
         }
         
-        .result-filename {
+        /* Marked with Tab for sending to the LiveGrep Results view */
+        .result-item.marked::before {
+            content: '\\25CF';
+            position: absolute;
+            left: 12px;
+            color: var(--vscode-list-highlightForeground);
+        }
+        
+        .file-header {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 0 12px;
+            cursor: pointer;
+            white-space: nowrap;
+            border-top: 1px solid var(--vscode-list-inactiveSelectionBackground);
+        }
+        
+        .file-header:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+        
+        .file-twistie {
+            width: 10px;
+            flex-shrink: 0;
+        }
+        
+        .file-name {
             font-weight: bold;
             color: var(--vscode-textLink-foreground);
-            margin-bottom: 2px;
         }
         
-        .result-path {
+        .file-path {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
             font-size: 0.9em;
             color: var(--vscode-descriptionForeground);
-            margin-bottom: 4px;
         }
         
-        .result-line-number {
+        .file-count {
+            padding: 0 6px;
+            border-radius: 8px;
             font-size: 0.85em;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        
+        .file-check,
+        .result-check {
+            display: none;
+        }
+        
+        body.replace-mode .file-check,
+        body.replace-mode .result-check {
+            display: inline-block;
+        }
+        
+        .result-item.excluded .result-text,
+        .result-item.excluded .result-line-number {
+            text-decoration: line-through;
+            opacity: 0.6;
+        }
+        
+        /* Characters matched by the fuzzy refinement */
+        .fuzzy-match {
+            font-weight: bold;
+            color: var(--vscode-list-highlightForeground);
+        }
+        
+        .result-line-number {
+            min-width: 32px;
+            text-align: right;
             color: var(--vscode-editorLineNumber-foreground);
-            margin-top: 2px;
-            font-style: italic;
+        }
+        
+        .result-text {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            font-family: var(--vscode-editor-font-family);
+        }
+        
+        .status-row {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            margin-top: 5px;
+        }
+        
+        .status-row .search-status {
+            flex: 1;
+            margin-top: 0;
         }
         
         .preview-content {
+            color: var(--vscode-editor-foreground);
             font-family: var(--vscode-editor-font-family);
             font-size: var(--vscode-editor-font-size);
             line-height: 1.4;
@@ -338,6 +629,23 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
             padding: 1px 2px;
         }
         
+        .line.diff-removed {
+            background-color: var(--vscode-diffEditor-removedLineBackground, var(--vscode-diffEditor-removedTextBackground));
+        }
+        
+        .line.diff-added {
+            background-color: var(--vscode-diffEditor-insertedLineBackground, var(--vscode-diffEditor-insertedTextBackground));
+        }
+        
+        del {
+            background-color: var(--vscode-diffEditor-removedTextBackground);
+        }
+        
+        ins {
+            background-color: var(--vscode-diffEditor-insertedTextBackground);
+            text-decoration: none;
+        }
+        
         .no-results {
             text-align: center;
             padding: 20px;
@@ -356,18 +664,95 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
         }
         
         .preview-header {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
             padding: 10px 0;
             border-bottom: 1px solid var(--vscode-panel-border);
             margin-bottom: 10px;
             font-weight: bold;
             color: var(--vscode-textLink-foreground);
         }
+        
+        .preview-nav {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            font-weight: normal;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .preview-nav-button {
+            padding: 0 6px;
+            border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+            border-radius: 3px;
+            background: transparent;
+            color: inherit;
+            cursor: pointer;
+        }
+        
+        .preview-gutter {
+            position: relative;
+            width: 10px;
+            flex-shrink: 0;
+            border-left: 1px solid var(--vscode-panel-border);
+            background-color: var(--vscode-editor-background);
+        }
+        
+        .gutter-mark {
+            position: absolute;
+            left: 1px;
+            right: 1px;
+            height: 3px;
+            cursor: pointer;
+            background-color: var(--vscode-editorOverviewRuler-findMatchForeground, var(--vscode-editor-findMatchHighlightBackground));
+        }
+        
+        .gutter-mark.current {
+            height: 4px;
+            background-color: var(--vscode-focusBorder);
+        }
+        
+        .line.match-line .line-number {
+            color: var(--vscode-editorLineNumber-activeForeground);
+        }
     </style>
 </head>
 <body>
     <div class="search-container">
-        <input type="text" class="search-input" placeholder="Enter search term..." id="searchInput">
-        <div class="search-status" id="searchStatus"></div>
+        <div class="search-row">
+            <input type="text" class="search-input" placeholder="Enter search term..." id="searchInput">
+            <input type="text" class="search-input replace-input" placeholder="Replace (use $1 for capture groups)..." id="replaceInput">
+            <button class="replace-all-button" id="replaceAllButton" title="Replace checked matches">Replace</button>
+            <button class="toggle-button" id="replaceToggle" title="Toggle Replace (Ctrl+H)">&#8644;</button>
+            <button class="toggle-button" id="narrowScopeButton" title="Narrow Scope">&minus;</button>
+            <button class="toggle-button" id="widenScopeButton" title="Widen Scope">+</button>
+        </div>
+        <div class="filter-row">
+            <input type="text" class="search-input filter-input" placeholder="files to include (e.g. *.ts, src/**)" id="includeInput">
+            <input type="text" class="search-input filter-input" placeholder="files to exclude (e.g. *.test.ts)" id="excludeInput">
+            <select class="filter-select" id="typeSelect" title="File type">
+                <option value="">All types</option>
+            </select>
+            <select class="filter-select" id="presetSelect" title="Filter presets">
+                <option value="">Presets...</option>
+            </select>
+            <button class="toggle-button" id="savePresetButton" title="Save the filters as a preset">Save</button>
+        </div>
+        <div class="toggle-chips" id="toggleChips"></div>
+        <div class="status-row">
+            <div class="search-status" id="searchStatus"></div>
+            <select class="filter-select" id="sortSelect" title="Sort files (Alt+O)">
+                <option value="path">Sort by path</option>
+                <option value="count">Sort by match count</option>
+                <option value="mtime">Sort by modified time</option>
+            </select>
+            <button class="toggle-button" id="collapseAllButton" title="Collapse all files (Alt+[)">&#8863;</button>
+            <button class="toggle-button" id="expandAllButton" title="Expand all files (Alt+])">&#8862;</button>
+            <button class="toggle-button" id="sendResultsButton" title="Save the marked results (Tab), or all of them, in LiveGrep Results (Alt+Q)">Send</button>
+            <button class="toggle-button" id="exportResultsButton" title="Export the marked results, or all of them, to a file">Export</button>
+            <button class="toggle-button" id="resultsEditorButton" title="Open the results in an editor">Editor</button>
+        </div>
     </div>
     
     <div class="main-content">
@@ -378,6 +763,7 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
         <div class="preview-panel" id="previewPanel">
             <div class="no-results">Select a file to preview</div>
         </div>
+        <div class="preview-gutter" id="previewGutter" title="Matches in this file"></div>
     </div>
 
     <script>
@@ -385,19 +771,77 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
         const searchInput = document.getElementById('searchInput');
         const resultsPanel = document.getElementById('resultsPanel');
         const previewPanel = document.getElementById('previewPanel');
+        const previewGutter = document.getElementById('previewGutter');
         const searchStatus = document.getElementById('searchStatus');
+        const replaceInput = document.getElementById('replaceInput');
+        const replaceToggle = document.getElementById('replaceToggle');
+        const replaceAllButton = document.getElementById('replaceAllButton');
+        const toggleChips = document.getElementById('toggleChips');
+        const includeInput = document.getElementById('includeInput');
+        const excludeInput = document.getElementById('excludeInput');
+        const typeSelect = document.getElementById('typeSelect');
+        const presetSelect = document.getElementById('presetSelect');
+        const savePresetButton = document.getElementById('savePresetButton');
+        const sortSelect = document.getElementById('sortSelect');
+        const collapseAllButton = document.getElementById('collapseAllButton');
+        const expandAllButton = document.getElementById('expandAllButton');
+        const sendResultsButton = document.getElementById('sendResultsButton');
+        const exportResultsButton = document.getElementById('exportResultsButton');
+        const resultsEditorButton = document.getElementById('resultsEditorButton');
+        const sortModes = ['path', 'count', 'mtime'];
+        const toggleInfo = ${JSON.stringify(TOGGLE_INFO)};
         
         let currentResults = [];
         let selectedIndex = -1;
         let searchTimeout;
         let isSearching = false;
+        let searchGeneration = 0;
+        let replaceMode = false;
+        let toggles = ${JSON.stringify(DEFAULT_TOGGLES)};
+        let filterPresets = [];
+        let filterTimeout;
+        // Previous queries, most recent first, and the position while stepping through them
+        let searchHistory = [];
+        let historyIndex = -1;
+        let historyDraft = '';
+        let previewTimeout;
+        // Lines of the file in the preview and chunks being loaded around them
+        let previewWindow;
+        // Indices of results unchecked for replace
+        let excluded = new Set();
+        // Indices of results marked for the LiveGrep Results view
+        let marked = new Set();
+        // While the query has a fuzzy refinement: the results matching it,
+        // as index -> { score, positions } with positions in the trimmed text
+        let refined = null;
+        // Matches grouped per file, shown under collapsible file headers
+        let fileGroups = new Map();
+        let fileGroupList = [];
+        let sortMode = 'path';
+        // Modification times by file, sent while sorting by them
+        let fileTimes = new Map();
+        let sortedGroups;
+        // Files found after Collapse All start out collapsed too
+        let collapseNewGroups = false;
+        // The list is virtualized: rows (file headers and matches) are kept
+        // as data and only the ones in view are rendered
+        const ROW_HEIGHT = 22;
+        const OVERSCAN_ROWS = 10;
+        let rows = [];
+        let rowOfResult = new Map();
+        let rowOfGroup = new Map();
+        let scrollFrame;
         
         searchInput.addEventListener('input', (e) => {
             clearTimeout(searchTimeout);
             const query = e.target.value.trim();
+            historyIndex = -1;
             
             if (query === '') {
                 showNoResults();
+                // Drop results still in flight and stop the running search
+                searchGeneration++;
+                vscode.postMessage({ command: 'cancelSearch' });
                 return;
             }
             
@@ -406,17 +850,141 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
             }, 300);
         });
         
+        replaceInput.addEventListener('input', () => {
+            // Refresh the diff preview of the selected match
+            clearTimeout(previewTimeout);
+            previewTimeout = setTimeout(() => {
+                selectResult(selectedIndex);
+            }, 200);
+        });
+        
+        replaceInput.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                applyReplace();
+            }
+        });
+        
+        replaceToggle.addEventListener('click', toggleReplaceMode);
+        document.getElementById('narrowScopeButton').addEventListener('click', () => {
+            vscode.postMessage({ command: 'changeScope', direction: -1 });
+        });
+        document.getElementById('widenScopeButton').addEventListener('click', () => {
+            vscode.postMessage({ command: 'changeScope', direction: 1 });
+        });
+        
+        includeInput.addEventListener('input', scheduleFilters);
+        excludeInput.addEventListener('input', scheduleFilters);
+        typeSelect.addEventListener('change', sendFilters);
+        
+        presetSelect.addEventListener('change', () => {
+            const preset = filterPresets[Number(presetSelect.value)];
+            presetSelect.value = '';
+            if (preset) {
+                applyFilters(preset);
+            }
+        });
+        
+        savePresetButton.addEventListener('click', () => {
+            vscode.postMessage({ command: 'saveFilterPreset', filters: currentFilters() });
+        });
+        
+        sortSelect.addEventListener('change', () => setSortMode(sortSelect.value));
+        collapseAllButton.addEventListener('click', () => setAllCollapsed(true));
+        expandAllButton.addEventListener('click', () => setAllCollapsed(false));
+        sendResultsButton.addEventListener('click', () => sendResults('saveResults'));
+        exportResultsButton.addEventListener('click', () => sendResults('exportResults'));
+        resultsEditorButton.addEventListener('click', openResultsEditor);
+        
+        previewPanel.addEventListener('scroll', () => {
+            if (!previewWindow) return;
+            // Load more of the file about a screen before reaching either edge
+            const margin = previewPanel.clientHeight;
+            if (previewPanel.scrollTop < margin) {
+                loadMorePreview(true);
+            }
+            if (previewPanel.scrollHeight - previewPanel.scrollTop - previewPanel.clientHeight < margin) {
+                loadMorePreview(false);
+            }
+        });
+        
+        previewGutter.addEventListener('click', (e) => {
+            const index = e.target.dataset && e.target.dataset.index;
+            if (index !== undefined) {
+                selectResult(Number(index));
+                scrollToSelected();
+            }
+        });
+        
+        previewPanel.addEventListener('click', (e) => {
+            const button = e.target.closest('.preview-nav-button');
+            if (button) {
+                navigateFileMatches(Number(button.dataset.step));
+            }
+        });
+        
+        resultsPanel.addEventListener('scroll', () => {
+            if (!scrollFrame) {
+                scrollFrame = requestAnimationFrame(() => {
+                    scrollFrame = undefined;
+                    renderVisibleRows();
+                });
+            }
+        });
+        
+        resultsPanel.addEventListener('click', (e) => {
+            const header = e.target.closest('.file-header');
+            if (header) {
+                const group = fileGroupList[Number(header.dataset.group)];
+                if (e.target.classList.contains('file-check')) {
+                    setFileIncluded(group, e.target.checked);
+                } else {
+                    setGroupCollapsed(group, !group.collapsed);
+                }
+                return;
+            }
+            const item = e.target.closest('.result-item');
+            if (!item) return;
+            const index = Number(item.dataset.index);
+            if (e.target.classList.contains('result-check')) {
+                setResultIncluded(index, e.target.checked);
+                renderResults();
+                updateStatus(isSearching);
+                return;
+            }
+            selectResult(index);
+        });
+        
+        toggleChips.addEventListener('click', (e) => {
+            const name = e.target.dataset && e.target.dataset.toggle;
+            if (name) {
+                flipToggle(name);
+            }
+        });
+        replaceAllButton.addEventListener('click', applyReplace);
+        
         searchInput.addEventListener('keydown', (e) => {
+            // Up/Down walk the history until there are results to navigate,
+            // Alt+Up/Down walk it at any time
+            const useHistory = e.altKey || currentResults.length === 0;
             if (e.key === 'ArrowDown') {
                 e.preventDefault();
-                navigateResults(1);
+                if (useHistory) {
+                    stepHistory(-1);
+                } else {
+                    navigateResults(1);
+                }
             } else if (e.key === 'ArrowUp') {
                 e.preventDefault();
-                navigateResults(-1);
+                if (useHistory) {
+                    stepHistory(1);
+                } else {
+                    navigateResults(-1);
+                }
             } else if (e.key === 'Enter') {
                 e.preventDefault();
                 if (selectedIndex >= 0 && currentResults[selectedIndex]) {
-                    openSelectedFile();
+                    openSelectedFile(openActionForKey(e));
                 }
             }
         });
@@ -424,6 +992,56 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
         // Global keyboard navigation (works even when search input doesn't have focus)
         document.addEventListener('keydown', (e) => {
             // Only handle if not typing in search input or if using Ctrl combinations
+            if (e.ctrlKey && e.key === 'h') {
+                e.preventDefault();
+                toggleReplaceMode();
+                return;
+            }
+            
+            if (e.altKey && !e.ctrlKey) {
+                // e.code, since Alt changes the typed character on macOS
+                if (e.code === 'KeyN' || e.code === 'KeyP') {
+                    e.preventDefault();
+                    navigateFiles(e.code === 'KeyN' ? 1 : -1);
+                    return;
+                }
+                if (e.code === 'BracketLeft' || e.code === 'BracketRight') {
+                    e.preventDefault();
+                    setAllCollapsed(e.code === 'BracketLeft');
+                    return;
+                }
+                if (e.code === 'KeyJ' || e.code === 'KeyK') {
+                    e.preventDefault();
+                    navigateFileMatches(e.code === 'KeyJ' ? 1 : -1);
+                    return;
+                }
+                if (e.code === 'KeyQ') {
+                    e.preventDefault();
+                    sendResults('saveResults');
+                    return;
+                }
+                if (e.code === 'KeyO') {
+                    e.preventDefault();
+                    setSortMode(sortModes[(sortModes.indexOf(sortMode) + 1) % sortModes.length]);
+                    return;
+                }
+                const info = toggleInfo.find((t) => e.code === 'Key' + t.key.toUpperCase());
+                if (info) {
+                    e.preventDefault();
+                    flipToggle(info.name);
+                    return;
+                }
+            }
+            
+            // Tab marks the selected result and moves on, Shift+Tab moves back
+            if (e.key === 'Tab' && !e.ctrlKey && !e.altKey && currentResults.length > 0 &&
+                (e.target === searchInput || !isFormField(e.target))) {
+                e.preventDefault();
+                toggleMarked(selectedIndex);
+                navigateResults(e.shiftKey ? -1 : 1);
+                return;
+            }
+            
             if (e.target !== searchInput || e.ctrlKey) {
                 if (e.ctrlKey && e.key === 'n') {
                     e.preventDefault();
@@ -431,19 +1049,30 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
                 } else if (e.ctrlKey && e.key === 'p') {
                     e.preventDefault();
                     navigateResults(-1);
-                } else if (e.target !== searchInput) {
-                    // Allow arrow keys when not in search input
+                } else if (e.target !== searchInput && !isFormField(e.target)) {
+                    // Allow arrow keys when not in search input or another field
                     if (e.key === 'ArrowDown') {
                         e.preventDefault();
                         navigateResults(1);
                     } else if (e.key === 'ArrowUp') {
                         e.preventDefault();
                         navigateResults(-1);
+                    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+                        // Collapse or expand the file of the selected match
+                        const group = selectedGroup();
+                        if (group) {
+                            e.preventDefault();
+                            setGroupCollapsed(group, e.key === 'ArrowLeft');
+                        }
                     } else if (e.key === 'Enter') {
                         e.preventDefault();
                         if (selectedIndex >= 0 && currentResults[selectedIndex]) {
-                            openSelectedFile();
+                            openSelectedFile(openActionForKey(e));
                         }
+                    } else if (e.ctrlKey && e.key === 'v') {
+                        // Vertical split, as in Telescope; fields keep Ctrl+V for paste
+                        e.preventDefault();
+                        openSelectedFile('newGroup');
                     }
                 }
             }
@@ -453,73 +1082,513 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
             isSearching = true;
             showLoading();
             searchStatus.textContent = 'Searching...';
+            searchGeneration++;
             vscode.postMessage({
                 command: 'search',
-                query: query
+                query: query,
+                generation: searchGeneration
             });
         }
         
         function showLoading() {
             resultsPanel.innerHTML = '<div class="loading">Searching...</div>';
-            previewPanel.innerHTML = '<div class="no-results">Searching...</div>';
+            showPreviewMessage('Searching...');
         }
         
         function showNoResults() {
             resultsPanel.innerHTML = '<div class="no-results">Enter a search term to begin</div>';
-            previewPanel.innerHTML = '<div class="no-results">Select a file to preview</div>';
+            showPreviewMessage('Select a file to preview');
             currentResults = [];
             selectedIndex = -1;
             isSearching = false;
+            resetFileGroups();
             searchStatus.textContent = '';
         }
         
-        function addResult(result) {
-            currentResults.push(result);
+        function addResults(results, refinedResults) {
+            results.forEach(addResult);
+            if (refined && refinedResults) {
+                addRefined(refinedResults);
+            }
             
             // Update status
-            searchStatus.textContent = \`Found \${currentResults.length} result\${currentResults.length === 1 ? '' : 's'}...\`;
-            
-            // Update the display incrementally
-            const resultHtml = \`
-                <div class="result-item" data-index="\${currentResults.length - 1}">
-                    <div class="result-filename">\${escapeHtml(result.fileName)}</div>
-                    <div class="result-path">\${escapeHtml(result.relativePath)}</div>
-                    <div class="result-line-number">Line \${result.lineNumber}</div>
-                </div>
-            \`;
-            
-            // If this is the first result, clear the loading message
-            if (currentResults.length === 1) {
-                resultsPanel.innerHTML = resultHtml;
-                // Auto-select first result
-                selectResult(0);
-            } else {
-                // Append new result
-                resultsPanel.insertAdjacentHTML('beforeend', resultHtml);
+            updateStatus(true);
+            renderResults();
+            if (selectedIndex === -1 && firstVisibleIndex() !== -1) {
+                // Auto-select the first result
+                selectResult(firstVisibleIndex());
+            }
+        }
+        
+        function addRefined(entries) {
+            for (const [index, score, positions] of entries) {
+                refined.set(index, { score, positions });
+            }
+            sortedGroups = undefined;
+        }
+        
+        // Matches of a group shown in the list: all of them in line order,
+        // or the ones matching the refinement, best first
+        function visibleIndices(group) {
+            if (!refined) return group.indices;
+            return group.indices
+                .filter((index) => refined.has(index))
+                .sort((a, b) => refined.get(b).score - refined.get(a).score);
+        }
+        
+        // Matches of a group that can be stepped through in the preview, in line order
+        function fileIndices(group) {
+            return refined ? group.indices.filter((index) => refined.has(index)) : group.indices;
+        }
+        
+        function groupScore(group) {
+            return Math.max(...group.indices.map((index) => refined.has(index) ? refined.get(index).score : -Infinity));
+        }
+        
+        function firstVisibleIndex() {
+            for (const group of getSortedGroups()) {
+                const indices = visibleIndices(group);
+                if (indices.length > 0) return indices[0];
+            }
+            return -1;
+        }
+        
+        // Indices of the results in the list, in display order
+        function allVisibleIndices() {
+            return getSortedGroups().flatMap(visibleIndices);
+        }
+        
+        // The refinement changed without a new search: filter and rank the
+        // results that are already here
+        function applyRefinement(message) {
+            refined = message.active ? new Map() : null;
+            if (refined) {
+                addRefined(message.matches);
+            }
+            sortedGroups = undefined;
+            isSearching = !message.complete;
+            if (currentResults.length === 0) {
+                if (message.complete) {
+                    searchComplete();
+                }
+                return;
+            }
+            resultsPanel.innerHTML = '';
+            renderResults();
+            updateStatus(isSearching);
+            const first = firstVisibleIndex();
+            if (first === -1) {
+                showNoRefinedResults();
+                return;
+            }
+            selectResult(selectedIndex === -1 || (refined && !refined.has(selectedIndex)) ? first : selectedIndex);
+            scrollToSelected();
+        }
+        
+        function showNoRefinedResults() {
+            resultsPanel.innerHTML = '<div class="no-results">No results match the refinement</div>';
+            showPreviewMessage('No results match the refinement');
+            selectedIndex = -1;
+        }
+        
+        function addResult(result) {
+            currentResults.push(result);
+            const index = currentResults.length - 1;
+            
+            let group = fileGroups.get(result.filePath);
+            if (!group) {
+                // rg separates with \\ on Windows
+                const slash = Math.max(result.relativePath.lastIndexOf('/'), result.relativePath.lastIndexOf('\\\\'));
+                group = {
+                    id: fileGroupList.length,
+                    filePath: result.filePath,
+                    fileName: result.fileName,
+                    relativePath: result.relativePath,
+                    dir: slash > 0 ? result.relativePath.substring(0, slash) : '',
+                    collapsed: collapseNewGroups,
+                    indices: []
+                };
+                fileGroups.set(result.filePath, group);
+                fileGroupList.push(group);
+            }
+            group.indices.push(index);
+            sortedGroups = undefined;
+        }
+        
+        function resetFileGroups() {
+            excluded = new Set();
+            marked = new Set();
+            fileGroups = new Map();
+            fileGroupList = [];
+            fileTimes = new Map();
+            sortedGroups = undefined;
+            rows = [];
+            rowOfResult = new Map();
+            rowOfGroup = new Map();
+        }
+        
+        function compareGroups(a, b) {
+            if (sortMode === 'count' && a.indices.length !== b.indices.length) {
+                return b.indices.length - a.indices.length;
+            }
+            if (sortMode === 'mtime') {
+                const aTime = fileTimes.get(a.filePath) || 0;
+                const bTime = fileTimes.get(b.filePath) || 0;
+                if (aTime !== bTime) {
+                    return bTime - aTime;
+                }
+            }
+            return a.relativePath < b.relativePath ? -1 : a.relativePath > b.relativePath ? 1 : 0;
+        }
+        
+        function getSortedGroups() {
+            if (!sortedGroups) {
+                // Refined results rank files by their best match
+                sortedGroups = refined
+                    ? fileGroupList.slice().sort((a, b) => groupScore(b) - groupScore(a) || compareGroups(a, b))
+                    : fileGroupList.slice().sort(compareGroups);
+            }
+            return sortedGroups;
+        }
+        
+        function renderResults() {
+            if (currentResults.length === 0) return;
+            buildRows();
+            renderVisibleRows();
+        }
+        
+        // Flattens the sorted groups into rows, keeping the row at the top
+        // of the view in place when rows are inserted above it
+        function buildRows() {
+            const anchor = resultsPanel.scrollTop > 0 ? rows[Math.floor(resultsPanel.scrollTop / ROW_HEIGHT)] : undefined;
+            const anchorOffset = resultsPanel.scrollTop % ROW_HEIGHT;
+            
+            rows = [];
+            rowOfResult = new Map();
+            rowOfGroup = new Map();
+            for (const group of getSortedGroups()) {
+                const indices = visibleIndices(group);
+                if (indices.length === 0) continue;
+                group.visibleCount = indices.length;
+                rowOfGroup.set(group.id, rows.length);
+                rows.push({ group });
+                if (!group.collapsed) {
+                    for (const index of indices) {
+                        rowOfResult.set(index, rows.length);
+                        rows.push({ group, index });
+                    }
+                }
             }
             
-            // Add click handler to the new result
-            const newItem = resultsPanel.lastElementChild;
-            newItem.addEventListener('click', () => {
-                selectResult(currentResults.length - 1);
+            let spacer = resultsPanel.querySelector('.results-spacer');
+            if (!spacer) {
+                resultsPanel.innerHTML = '<div class="results-spacer"></div>';
+                spacer = resultsPanel.firstElementChild;
+            }
+            spacer.style.height = \`\${rows.length * ROW_HEIGHT}px\`;
+            
+            if (anchor) {
+                const anchorRow = anchor.index === undefined ? rowOfGroup.get(anchor.group.id) : rowOfResult.get(anchor.index);
+                if (anchorRow !== undefined) {
+                    resultsPanel.scrollTop = anchorRow * ROW_HEIGHT + anchorOffset;
+                }
+            }
+        }
+        
+        function renderVisibleRows() {
+            const spacer = resultsPanel.querySelector('.results-spacer');
+            if (!spacer) return;
+            const first = Math.max(0, Math.floor(resultsPanel.scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+            const last = Math.min(rows.length, Math.ceil((resultsPanel.scrollTop + resultsPanel.clientHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+            let html = '';
+            for (let row = first; row < last; row++) {
+                const { group, index } = rows[row];
+                const style = \`top: \${row * ROW_HEIGHT}px\`;
+                html += index === undefined ? renderGroupHeader(group, style) : renderResultItem(index, style);
+            }
+            spacer.innerHTML = html;
+            spacer.querySelectorAll('.file-check[data-partial]').forEach((check) => {
+                check.indeterminate = true;
             });
         }
         
-        function clearResults() {
+        function renderGroupHeader(group, style) {
+            const checkedCount = group.indices.filter((i) => !excluded.has(i)).length;
+            return \`
+                <div class="result-row file-header" style="\${style}" data-group="\${group.id}">
+                    <span class="file-twistie">\${group.collapsed ? '&#9656;' : '&#9662;'}</span>
+                    <input type="checkbox" class="file-check" \${checkedCount > 0 ? 'checked' : ''} \${checkedCount > 0 && checkedCount < group.indices.length ? 'data-partial' : ''}>
+                    <span class="file-name">\${escapeHtml(group.fileName)}</span>
+                    <span class="file-path" title="\${escapeHtml(group.relativePath)}">\${escapeHtml(group.dir)}</span>
+                    <span class="file-count">\${group.visibleCount}</span>
+                </div>
+            \`;
+        }
+        
+        function renderResultItem(index, style) {
+            const result = currentResults[index];
+            const isExcluded = excluded.has(index);
+            return \`
+                <div class="result-row result-item \${index === selectedIndex ? 'selected' : ''} \${isExcluded ? 'excluded' : ''} \${marked.has(index) ? 'marked' : ''}" style="\${style}" data-index="\${index}">
+                    <input type="checkbox" class="result-check" \${isExcluded ? '' : 'checked'}>
+                    <span class="result-line-number">\${result.lineNumber}</span>
+                    <span class="result-text">\${renderRefined(result.text.trim(), refined && refined.get(index))}</span>
+                </div>
+            \`;
+        }
+        
+        function renderRefined(text, match) {
+            if (!match || match.positions.length === 0) return escapeHtml(text);
+            const positions = new Set(match.positions);
+            let html = '';
+            let start = 0;
+            for (let i = 0; i <= text.length; i++) {
+                const matched = positions.has(i);
+                if (i === text.length || matched !== positions.has(start)) {
+                    const part = escapeHtml(text.substring(start, i));
+                    html += positions.has(start) ? \`<span class="fuzzy-match">\${part}</span>\` : part;
+                    start = i;
+                }
+            }
+            return html;
+        }
+        
+        function selectedGroup() {
+            const result = currentResults[selectedIndex];
+            return result && fileGroups.get(result.filePath);
+        }
+        
+        function setGroupCollapsed(group, collapsed) {
+            group.collapsed = collapsed;
+            renderResults();
+        }
+        
+        function setAllCollapsed(collapsed) {
+            collapseNewGroups = collapsed;
+            fileGroupList.forEach((group) => {
+                group.collapsed = collapsed;
+            });
+            renderResults();
+            scrollToSelected();
+        }
+        
+        function setSortMode(mode) {
+            if (!sortModes.includes(mode)) return;
+            sortMode = mode;
+            sortSelect.value = mode;
+            sortedGroups = undefined;
+            vscode.postMessage({ command: 'setSort', sort: mode });
+            renderResults();
+            scrollToSelected();
+        }
+        
+        // Jumps to the first match of the next (1) or previous (-1) file
+        function navigateFiles(direction) {
+            const groups = getSortedGroups().filter((group) => visibleIndices(group).length > 0);
+            if (groups.length === 0) return;
+            const current = groups.indexOf(selectedGroup());
+            const target = groups[current === -1 ? 0 : current + direction];
+            if (!target) return;
+            if (target.collapsed) {
+                setGroupCollapsed(target, false);
+            }
+            selectResult(visibleIndices(target)[0]);
+            scrollToSelected();
+        }
+        
+        function updateStatus(streaming) {
+            const count = currentResults.length;
+            const files = fileGroupList.length;
+            let status = \`Found \${count} result\${count === 1 ? '' : 's'} in \${files} file\${files === 1 ? '' : 's'}\`;
+            if (refined) {
+                status += \`, \${refined.size} match\${refined.size === 1 ? 'es' : ''} the refinement\`;
+            }
+            if (replaceMode) {
+                status += \` (\${count - excluded.size} checked for replace)\`;
+            }
+            if (marked.size > 0) {
+                status += \` (\${marked.size} marked)\`;
+            }
+            searchStatus.textContent = streaming ? status + '...' : status;
+        }
+        
+        function setResultIncluded(index, included) {
+            if (included) {
+                excluded.delete(index);
+            } else {
+                excluded.add(index);
+            }
+        }
+        
+        function toggleMarked(index) {
+            if (!currentResults[index]) return;
+            if (marked.has(index)) {
+                marked.delete(index);
+            } else {
+                marked.add(index);
+            }
+            renderVisibleRows();
+            updateStatus(isSearching);
+        }
+        
+        // Marked results, or all of them when none are marked, go to the
+        // LiveGrep Results view (saveResults) or an export (exportResults)
+        function sendResults(command) {
+            if (currentResults.length === 0) return;
+            const indices = marked.size > 0
+                ? Array.from(marked).sort((a, b) => a - b)
+                : allVisibleIndices();
+            vscode.postMessage({
+                command,
+                generation: searchGeneration,
+                indices
+            });
+        }
+        
+        function openResultsEditor() {
+            if (currentResults.length === 0) return;
+            vscode.postMessage({ command: 'openResultsEditor', generation: searchGeneration });
+        }
+        
+        function setFileIncluded(group, included) {
+            for (const index of group.indices) {
+                setResultIncluded(index, included);
+            }
+            renderResults();
+            updateStatus(isSearching);
+        }
+        
+        function isFormField(element) {
+            return element.tagName === 'INPUT' || element.tagName === 'SELECT' || element.tagName === 'BUTTON';
+        }
+        
+        function currentFilters() {
+            return {
+                include: includeInput.value,
+                exclude: excludeInput.value,
+                type: typeSelect.value
+            };
+        }
+        
+        function scheduleFilters() {
+            clearTimeout(filterTimeout);
+            filterTimeout = setTimeout(sendFilters, 300);
+        }
+        
+        function sendFilters() {
+            clearTimeout(filterTimeout);
+            vscode.postMessage({ command: 'setFilters', filters: currentFilters() });
+            // Search again with the new filters
+            const query = searchInput.value.trim();
+            if (query !== '') {
+                performSearch(query);
+            }
+        }
+        
+        function applyFilters(filters) {
+            includeInput.value = filters.include || '';
+            excludeInput.value = filters.exclude || '';
+            if (filters.type && !Array.from(typeSelect.options).some((o) => o.value === filters.type)) {
+                typeSelect.insertAdjacentHTML('beforeend', \`<option value="\${escapeHtml(filters.type)}">\${escapeHtml(filters.type)}</option>\`);
+            }
+            typeSelect.value = filters.type || '';
+            sendFilters();
+        }
+        
+        function renderTypes(types) {
+            const selected = typeSelect.value;
+            typeSelect.innerHTML = '<option value="">All types</option>' + types.map((type) =>
+                \`<option value="\${escapeHtml(type)}">\${escapeHtml(type)}</option>\`
+            ).join('');
+            typeSelect.value = selected;
+        }
+        
+        function renderPresets() {
+            presetSelect.innerHTML = '<option value="">Presets...</option>' + filterPresets.map((preset, i) =>
+                \`<option value="\${i}">\${escapeHtml(preset.name)}</option>\`
+            ).join('');
+        }
+        
+        function renderToggles() {
+            toggleChips.innerHTML = toggleInfo.map((info) => \`
+                <button class="toggle-chip \${toggles[info.name] ? 'active' : ''}" data-toggle="\${info.name}" title="\${escapeHtml(info.label)} (Alt+\${info.key.toUpperCase()})">\${escapeHtml(info.label)}</button>
+            \`).join('');
+        }
+        
+        function flipToggle(name) {
+            toggles = { ...toggles, [name]: !toggles[name] };
+            renderToggles();
+            vscode.postMessage({ command: 'setToggles', toggles });
+            // Search again with the new flags
+            const query = searchInput.value.trim();
+            if (query !== '') {
+                performSearch(query);
+            }
+        }
+        
+        function toggleReplaceMode() {
+            replaceMode = !replaceMode;
+            document.body.classList.toggle('replace-mode', replaceMode);
+            replaceToggle.classList.toggle('active', replaceMode);
+            if (replaceMode) {
+                replaceInput.focus();
+            } else {
+                searchInput.focus();
+            }
+            if (currentResults.length > 0) {
+                updateStatus(isSearching);
+            }
+            // Switch the preview between plain and diff view
+            selectResult(selectedIndex);
+        }
+        
+        function applyReplace() {
+            if (!replaceMode || currentResults.length === 0) return;
+            if (isSearching) {
+                searchStatus.textContent = 'Wait for the search to finish before replacing';
+                return;
+            }
+            // Matches hidden by the refinement are left alone too
+            const skipped = new Set(excluded);
+            if (refined) {
+                currentResults.forEach((_, index) => {
+                    if (!refined.has(index)) skipped.add(index);
+                });
+            }
+            if (skipped.size === currentResults.length) {
+                searchStatus.textContent = 'No matches checked for replace';
+                return;
+            }
+            searchStatus.textContent = 'Replacing...';
+            vscode.postMessage({
+                command: 'applyReplace',
+                generation: searchGeneration,
+                replacement: replaceInput.value,
+                excluded: Array.from(skipped)
+            });
+        }
+        
+        function clearResults(refining) {
             currentResults = [];
             selectedIndex = -1;
+            resetFileGroups();
+            refined = refining ? new Map() : null;
             resultsPanel.innerHTML = '<div class="loading">Searching...</div>';
-            previewPanel.innerHTML = '<div class="no-results">Searching...</div>';
+            showPreviewMessage('Searching...');
         }
         
         function searchComplete() {
             isSearching = false;
+            renderResults();
             if (currentResults.length === 0) {
                 resultsPanel.innerHTML = '<div class="no-results">No results found</div>';
-                previewPanel.innerHTML = '<div class="no-results">No results found</div>';
+                showPreviewMessage('No results found');
                 searchStatus.textContent = 'No results found';
+            } else if (firstVisibleIndex() === -1) {
+                showNoRefinedResults();
+                updateStatus(false);
             } else {
-                searchStatus.textContent = \`Found \${currentResults.length} result\${currentResults.length === 1 ? '' : 's'}\`;
+                updateStatus(false);
             }
         }
         
@@ -529,57 +1598,210 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
             if (index < 0 || index >= currentResults.length) return;
             
             // Update visual selection
-            resultsPanel.querySelectorAll('.result-item').forEach((item, i) => {
-                item.classList.toggle('selected', i === index);
+            resultsPanel.querySelectorAll('.result-item.selected').forEach((item) => {
+                item.classList.remove('selected');
             });
+            const item = resultsPanel.querySelector(\`.result-item[data-index="\${index}"]\`);
+            if (item) {
+                item.classList.add('selected');
+            }
             
             selectedIndex = index;
             const result = currentResults[index];
             
-            // Request file preview
+            // Request file preview, as a diff of the match in replace mode
             vscode.postMessage({
                 command: 'previewFile',
                 filePath: result.filePath,
                 lineNumber: result.lineNumber,
-                query: searchInput.value
+                generation: searchGeneration,
+                resultIndex: index,
+                replacement: replaceMode ? replaceInput.value : undefined
             });
         }
         
         function navigateResults(direction) {
             if (currentResults.length === 0) return;
             
-            const newIndex = selectedIndex + direction;
-            if (newIndex >= 0 && newIndex < currentResults.length) {
-                selectResult(newIndex);
-                
-                // Instant scroll with no animation
-                const selectedItem = resultsPanel.querySelector('.result-item.selected');
-                if (selectedItem) {
-                    selectedItem.scrollIntoView({ 
-                        block: 'nearest', 
-                        behavior: 'instant' 
-                    });
-                }
+            // Walk the match rows in display order, skipping file headers
+            const current = rowOfResult.get(selectedIndex);
+            let row = current === undefined ? (direction > 0 ? -1 : rows.length) : current;
+            do {
+                row += direction;
+            } while (row >= 0 && row < rows.length && rows[row].index === undefined);
+            if (row >= 0 && row < rows.length) {
+                selectResult(rows[row].index);
+                scrollToSelected();
             }
         }
         
-        function openSelectedFile() {
+        function scrollToSelected() {
+            const row = rowOfResult.get(selectedIndex);
+            if (row === undefined) return;
+            // Scroll just enough to bring the row into view
+            const top = row * ROW_HEIGHT;
+            if (top < resultsPanel.scrollTop) {
+                resultsPanel.scrollTop = top;
+            } else if (top + ROW_HEIGHT > resultsPanel.scrollTop + resultsPanel.clientHeight) {
+                resultsPanel.scrollTop = top + ROW_HEIGHT - resultsPanel.clientHeight;
+            }
+            renderVisibleRows();
+        }
+        
+        // Enter opens in place, Ctrl+Enter to the side, Ctrl+Shift+Enter in a
+        // new tab group, Shift+Enter keeps the panel open, Alt+Enter opens in
+        // the background
+        function openActionForKey(e) {
+            if ((e.ctrlKey || e.metaKey) && e.shiftKey) return 'newGroup';
+            if (e.ctrlKey || e.metaKey) return 'side';
+            if (e.shiftKey) return 'keepOpen';
+            if (e.altKey) return 'background';
+            return 'current';
+        }
+        
+        function openSelectedFile(action = 'current') {
             if (selectedIndex >= 0 && currentResults[selectedIndex]) {
                 const result = currentResults[selectedIndex];
+                const query = searchInput.value.trim();
+                searchHistory = [query, ...searchHistory.filter((entry) => entry !== query)];
                 vscode.postMessage({
                     command: 'openFile',
                     filePath: result.filePath,
-                    lineNumber: result.lineNumber
+                    lineNumber: result.lineNumber,
+                    column: result.column,
+                    query,
+                    action
                 });
             }
         }
         
-        function displayPreview(preview, filePath) {
-            const fileName = filePath.split('/').pop() || filePath;
+        // direction 1 steps to an older query, -1 back towards the draft
+        function stepHistory(direction) {
+            const nextIndex = historyIndex + direction;
+            if (nextIndex < -1 || nextIndex >= searchHistory.length) return;
+            if (historyIndex === -1) {
+                historyDraft = searchInput.value;
+            }
+            historyIndex = nextIndex;
+            const query = historyIndex === -1 ? historyDraft : searchHistory[historyIndex];
+            searchInput.value = query;
+            
+            clearTimeout(searchTimeout);
+            if (query.trim() === '') {
+                showNoResults();
+                return;
+            }
+            searchTimeout = setTimeout(() => {
+                performSearch(query.trim());
+            }, 300);
+        }
+        
+        function showPreviewMessage(text) {
+            previewPanel.innerHTML = \`<div class="no-results">\${escapeHtml(text)}</div>\`;
+            previewGutter.innerHTML = '';
+            previewWindow = undefined;
+        }
+        
+        function displayPreview(message) {
+            const { filePath, resultIndex } = message;
+            // A later selection already asked for another preview
+            if (resultIndex !== selectedIndex || !currentResults[resultIndex]) return;
+            const fileName = filePath.split(/[\\\\/]/).pop() || filePath;
+            const group = fileGroups.get(filePath);
+            const indices = group ? fileIndices(group) : [];
+            const position = indices.indexOf(selectedIndex);
+            const nav = position === -1 ? '' : \`
+                <span class="preview-nav">
+                    <button class="preview-nav-button" data-step="-1" title="Previous match in file (Alt+K)">&#8593;</button>
+                    <span>\${position + 1} of \${indices.length}</span>
+                    <button class="preview-nav-button" data-step="1" title="Next match in file (Alt+J)">&#8595;</button>
+                </span>
+            \`;
             previewPanel.innerHTML = \`
-                <div class="preview-header">\${escapeHtml(fileName)}</div>
-                <div class="preview-content">\${preview}</div>
+                <div class="preview-header"><span>\${escapeHtml(fileName)}</span>\${nav}</div>
+                <div class="preview-content" id="previewContent">\${message.html}</div>
             \`;
+            previewWindow = {
+                filePath,
+                resultIndex,
+                lineNumber: currentResults[resultIndex].lineNumber,
+                startLine: message.startLine,
+                endLine: message.endLine,
+                totalLines: message.totalLines,
+                loadingBefore: false,
+                loadingAfter: false
+            };
+            renderGutter(group, message.totalLines);
+            
+            // Center the target line
+            const target = previewPanel.querySelector('.target-line');
+            if (target) {
+                previewPanel.scrollTop = target.offsetTop - (previewPanel.clientHeight - target.offsetHeight) / 2;
+            }
+        }
+        
+        function loadMorePreview(before) {
+            const w = previewWindow;
+            if (before ? w.loadingBefore || w.startLine <= 1 : w.loadingAfter || w.endLine >= w.totalLines) return;
+            if (before) {
+                w.loadingBefore = true;
+            } else {
+                w.loadingAfter = true;
+            }
+            vscode.postMessage({
+                command: 'previewMore',
+                filePath: w.filePath,
+                lineNumber: w.lineNumber,
+                generation: searchGeneration,
+                resultIndex: w.resultIndex,
+                before,
+                fromLine: before ? w.startLine : w.endLine + 1
+            });
+        }
+        
+        function addPreviewChunk(message) {
+            const w = previewWindow;
+            const content = document.getElementById('previewContent');
+            if (!w || !content || message.resultIndex !== w.resultIndex) return;
+            if (message.before) {
+                w.loadingBefore = false;
+                if (message.endLine !== w.startLine - 1) return;
+                // Keep the visible lines in place while lines are added above them
+                const oldHeight = previewPanel.scrollHeight;
+                content.insertAdjacentHTML('afterbegin', message.html);
+                previewPanel.scrollTop += previewPanel.scrollHeight - oldHeight;
+                w.startLine = message.startLine;
+            } else {
+                w.loadingAfter = false;
+                if (message.startLine !== w.endLine + 1) return;
+                content.insertAdjacentHTML('beforeend', message.html);
+                w.endLine = message.endLine;
+            }
+        }
+        
+        // Minimap of where the file's matches are, relative to the whole file
+        function renderGutter(group, totalLines) {
+            if (!group || !totalLines) {
+                previewGutter.innerHTML = '';
+                return;
+            }
+            previewGutter.innerHTML = fileIndices(group).map((index) => {
+                const line = currentResults[index].lineNumber;
+                const top = ((line - 1) / totalLines) * 100;
+                return \`<div class="gutter-mark \${index === selectedIndex ? 'current' : ''}" style="top: \${top}%" data-index="\${index}" title="Line \${line}"></div>\`;
+            }).join('');
+        }
+        
+        // Selects the next (1) or previous (-1) match in the previewed file
+        function navigateFileMatches(direction) {
+            const group = selectedGroup();
+            if (!group) return;
+            const indices = fileIndices(group);
+            const target = indices[indices.indexOf(selectedIndex) + direction];
+            if (target !== undefined) {
+                selectResult(target);
+                scrollToSelected();
+            }
         }
         
         function escapeHtml(text) {
@@ -592,12 +1814,20 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
         window.addEventListener('message', event => {
             const message = event.data;
             
+            // Ignore search messages that belong to an outdated query
+            if (message.generation !== undefined && message.generation !== searchGeneration) {
+                return;
+            }
+            
             switch (message.command) {
                 case 'clearResults':
-                    clearResults();
+                    clearResults(message.refining);
                     break;
-                case 'addResult':
-                    addResult(message.result);
+                case 'addResults':
+                    addResults(message.results, message.refined);
+                    break;
+                case 'refineResults':
+                    applyRefinement(message);
                     break;
                 case 'searchComplete':
                     searchComplete();
@@ -607,13 +1837,74 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
                     searchComplete();
                     break;
                 case 'filePreview':
-                    displayPreview(message.preview, message.filePath);
+                    displayPreview(message);
+                    break;
+                case 'previewChunk':
+                    addPreviewChunk(message);
+                    break;
+                case 'replaceComplete':
+                    // Search again so the list reflects the edited files
+                    performSearch(searchInput.value.trim());
+                    break;
+                case 'scopeChanged':
+                    // Same query, new directories
+                    if (searchInput.value.trim() !== '') {
+                        performSearch(searchInput.value.trim());
+                    }
+                    break;
+                case 'history':
+                    searchHistory = message.entries;
+                    break;
+                case 'toggles':
+                    toggles = message.toggles;
+                    renderToggles();
+                    break;
+                case 'fileTimes':
+                    for (const [filePath, mtime] of message.times) {
+                        fileTimes.set(filePath, mtime);
+                    }
+                    if (sortMode === 'mtime') {
+                        sortedGroups = undefined;
+                        renderResults();
+                    }
+                    break;
+                case 'sortMode':
+                    sortMode = message.sort;
+                    sortSelect.value = message.sort;
+                    sortedGroups = undefined;
+                    renderResults();
+                    break;
+                case 'tokenStyles':
+                    document.getElementById('tokenStyles').textContent = message.css;
+                    // Redraw the preview with the new theme's token classes
+                    if (message.refresh) {
+                        selectResult(selectedIndex);
+                    }
+                    break;
+                case 'typeList':
+                    renderTypes(message.types);
+                    break;
+                case 'filterPresets':
+                    filterPresets = message.presets;
+                    renderPresets();
+                    break;
+                case 'applyFilters':
+                    applyFilters(message.filters);
+                    break;
+                case 'requestExport':
+                    sendResults('exportResults');
+                    break;
+                case 'requestResultsEditor':
+                    openResultsEditor();
+                    break;
+                case 'replaceError':
+                    searchStatus.textContent = \`Replace failed: \${message.error}\`;
                     break;
             }
         });
         
         // Set initial query if provided
-        const initialQuery = '${initialQuery || ''}';
+        const initialQuery = ${JSON.stringify(initialQuery || '')};
         if (initialQuery) {
             searchInput.value = initialQuery;
             // Trigger search after a short delay to ensure everything is ready
@@ -622,10 +1913,12 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
             }, 100);
         }
         
+        renderToggles();
+        
         // Focus search input on load
         searchInput.focus();
         
-        // Notify extension that webview is ready
+        // Notify extension that webview is ready to receive the history
         vscode.postMessage({ command: 'ready' });
     </script>
 </body>
@@ -635,15 +1928,18 @@ function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, in
 export function createWebviewSearchPanel(
   context: vscode.ExtensionContext, 
   rgPath: string, 
-  searchDirs: string[],
+  scope: ResolvedScope,
+  workspaceFolders: string[] | undefined,
+  history: SearchHistory,
+  savedResults: ResultsStore,
   initialQuery?: string,
-  title?: string,
   contextLines: number = 20,
-  autoClose: boolean = true
+  autoClose: boolean = true,
+  initialFilters?: SearchFilters
 ) {
   const panel = vscode.window.createWebviewPanel(
     'livegrepWebview',
-    title || 'LiveGrep Search',
+    `LiveGrep: Search in ${scope.label}`,
     vscode.ViewColumn.One,
     {
       enableScripts: true,
@@ -654,76 +1950,356 @@ export function createWebviewSearchPanel(
 
   panel.webview.html = getWebviewContent(panel.webview, context.extensionUri, initialQuery);
 
+  const session = createSearchSession();
+  panel.onDidDispose(() => session.cancel(), null, context.subscriptions);
+
+  let toggles = loadToggles(context, "webview");
+  let filters = initialFilters || EMPTY_FILTERS;
+
+  activeSearchPanel = panel;
+  panel.onDidChangeViewState((e) => {
+    if (e.webviewPanel.active) {
+      activeSearchPanel = panel;
+    }
+  }, null, context.subscriptions);
+  panel.onDidDispose(() => {
+    if (activeSearchPanel === panel) {
+      activeSearchPanel = undefined;
+    }
+  }, null, context.subscriptions);
+
+  const postFilterPresets = () => {
+    panel.webview.postMessage({ command: 'filterPresets', presets: getFilterPresets() });
+  };
+  const configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+    if (e.affectsConfiguration('livegrep.filterPresets')) {
+      postFilterPresets();
+    }
+  });
+  panel.onDidDispose(() => configListener.dispose(), null, context.subscriptions);
+
+  const postTokenStyles = (refresh: boolean) => {
+    let css = '';
+    try {
+      css = getTokenStyles();
+    } catch (error) {
+      console.error(`LiveGrep: failed to load token styles: ${error}`);
+    }
+    panel.webview.postMessage({ command: 'tokenStyles', css, refresh });
+  };
+  const themeListener = onDidChangeTokenStyles(() => postTokenStyles(true));
+  panel.onDidDispose(() => themeListener.dispose(), null, context.subscriptions);
+  // The narrow and widen buttons change where the panel searches
+  let searchDirs = scope.dirs;
+  const showToggles = () => {
+    const baseTitle = `LiveGrep: Search in ${scope.label}`;
+    const active = describeToggles(toggles);
+    panel.title = active ? `${baseTitle} [${active}]` : baseTitle;
+  };
+  showToggles();
+
+  // Results of the latest search, indexed like the webview's list
+  let results: RgMatch[] = [];
+  let resultsGeneration = -1;
+  let resultsQuery = '';
+  // The query as typed, refinement included, for the history
+  let typedQuery = '';
+  let resultsParsed = parseQuery('');
+  let resultsArgs: string[] = [];
+  // Fuzzy refinement of the results, from the part of the query after the separator
+  let refineQuery = '';
+  let searchRunning = false;
+  const refineEntries = (from: number) => {
+    const entries: [number, number, number[]][] = [];
+    for (let index = from; index < results.length; index++) {
+      const match = fuzzyMatchResult(refineQuery, results[index].relativePath, results[index].text.trim());
+      if (match) {
+        entries.push([index, match.score, match.textPositions]);
+      }
+    }
+    return entries;
+  };
+
+  // Modification times are only looked up while sorting by them, once per
+  // file and search, a batch of results at a time
+  let sortMode = context.globalState.get<string>('livegrep.resultSort') || 'path';
+  let statedFiles = new Set<string>();
+  const postFileTimes = async (matches: { filePath: string }[]) => {
+    if (sortMode !== 'mtime') {
+      return;
+    }
+    const stated = statedFiles;
+    const filePaths = [...new Set(matches.map((match) => match.filePath))].filter((filePath) => !stated.has(filePath));
+    filePaths.forEach((filePath) => stated.add(filePath));
+    if (filePaths.length === 0) {
+      return;
+    }
+    const times = await Promise.all(
+      filePaths.map(async (filePath): Promise<[string, number]> => {
+        try {
+          return [filePath, (await fs.promises.stat(filePath)).mtimeMs];
+        } catch {
+          return [filePath, 0];
+        }
+      })
+    );
+    // A new search started meanwhile
+    if (stated === statedFiles) {
+      panel.webview.postMessage({ command: 'fileTimes', times, generation: resultsGeneration });
+    }
+  };
+
+  // Results not yet posted to the webview
+  let pending: WebviewResult[] = [];
+  let batchTimer: NodeJS.Timeout | undefined;
+  const flushResults = (generation: number) => {
+    clearTimeout(batchTimer);
+    batchTimer = undefined;
+    if (pending.length > 0 && generation === resultsGeneration) {
+      const refined = refineQuery ? refineEntries(results.length - pending.length) : undefined;
+      panel.webview.postMessage({ command: 'addResults', results: pending, refined, generation });
+      postFileTimes(pending);
+    }
+    pending = [];
+  };
+  panel.onDidDispose(() => clearTimeout(batchTimer), null, context.subscriptions);
+
+  // Every match rg found in the previewed file is highlighted, not just the selected one
+  const fileMatchedLines = (message: { generation: number; filePath: string }) =>
+    matchedLinesOf(message.generation === resultsGeneration
+      ? results.filter((result) => result.filePath === message.filePath)
+      : []);
+
+  // Replacements interpret the pattern the same way rg did
+  const createResultsReplacer = (replacement: string) =>
+    createReplacer(resultsParsed.pattern, replacement, {
+      ignoreCase: isCaseInsensitive(resultsParsed),
+      fixedString: resultsParsed.fixedString
+    });
+
   // Handle messages from the webview
   panel.webview.onDidReceiveMessage(
     async (message) => {
       switch (message.command) {
-        case 'search':
-          // Clear previous results and start live search
-          panel.webview.postMessage({ command: 'clearResults' });
+        case 'search': {
+          // Clear previous results and start live search. Every message
+          // is tagged with the webview's query generation so it can drop
+          // anything that belongs to an older query.
+          // Only the part before the refinement separator goes to rg
+          typedQuery = message.query;
+          const { search, refine } = splitRefinement(message.query);
+          const searchParsed = parseQuery(search, toQueryDefaults(toggles));
+          const searchArgs = webviewSearchArgs(searchParsed, toggles, filters, scope.paths);
+          refineQuery = refine;
+          if (resultsGeneration !== -1 && searchParsed.pattern !== '' &&
+              searchArgs.join('\0') === resultsArgs.join('\0')) {
+            // Same search, new refinement: rank what's already here. A search
+            // still running keeps adding results under the new generation.
+            flushResults(resultsGeneration);
+            resultsGeneration = message.generation;
+            panel.webview.postMessage({
+              command: 'refineResults',
+              active: refineQuery !== '',
+              matches: refineQuery ? refineEntries(0) : [],
+              complete: !searchRunning,
+              generation: resultsGeneration
+            });
+            break;
+          }
+
+          panel.webview.postMessage({ command: 'clearResults', refining: refineQuery !== '', generation: message.generation });
+          clearTimeout(batchTimer);
+          batchTimer = undefined;
+          pending = [];
+          results = [];
+          statedFiles = new Set();
+          resultsGeneration = message.generation;
+          resultsQuery = search;
+          resultsParsed = searchParsed;
+          resultsArgs = searchArgs;
+          searchRunning = true;
           
-          await performWebviewSearchLive(
+          // Callbacks of a search that's been replaced never run, so they
+          // post under the latest generation, which a refinement may have moved
+          performWebviewSearchLive(
+            session,
             rgPath, 
             searchDirs, 
-            message.query,
-            // onResult: send each result immediately
+            resultsParsed,
+            toggles,
+            filters,
+            scope.paths,
+            // onResult: queue the result for the next batch
             (result) => {
-              panel.webview.postMessage({ 
-                command: 'addResult', 
-                result 
-              });
+              results.push(result);
+              pending.push(toWebviewResult(result));
+              if (!batchTimer) {
+                batchTimer = setTimeout(() => flushResults(resultsGeneration), RESULT_BATCH_MS);
+              }
             },
             // onComplete: search finished
             () => {
+              searchRunning = false;
+              flushResults(resultsGeneration);
               panel.webview.postMessage({ 
-                command: 'searchComplete' 
+                command: 'searchComplete',
+                generation: resultsGeneration
               });
             },
             // onError: handle errors
             (error) => {
+              searchRunning = false;
+              flushResults(resultsGeneration);
               panel.webview.postMessage({ 
                 command: 'searchError', 
-                error 
+                error,
+                generation: resultsGeneration
               });
             }
           );
           break;
-        case 'openFile':
-          await openFileAtLine(message.filePath, message.lineNumber);
-          if (autoClose) {
+        }
+        case 'cancelSearch':
+          session.cancel();
+          searchRunning = false;
+          resultsGeneration = -1;
+          break;
+        case 'ready':
+          panel.webview.postMessage({
+            command: 'history',
+            entries: history.entries("grep").map((entry) => entry.query)
+          });
+          panel.webview.postMessage({ command: 'toggles', toggles });
+          postTokenStyles(false);
+          panel.webview.postMessage({ command: 'sortMode', sort: sortMode });
+          postFilterPresets();
+          if (initialFilters) {
+            panel.webview.postMessage({ command: 'applyFilters', filters: initialFilters });
+          }
+          panel.webview.postMessage({ command: 'typeList', types: await listRgTypes(rgPath) });
+          break;
+        case 'setFilters':
+          filters = message.filters;
+          break;
+        case 'saveFilterPreset': {
+          const presetName = await vscode.window.showInputBox({
+            prompt: 'Name of the filter preset',
+            placeHolder: 'e.g. TypeScript sources, no tests'
+          });
+          if (presetName) {
+            await saveFilterPreset({ ...message.filters, name: presetName });
+          }
+          break;
+        }
+        case 'setSort':
+          sortMode = message.sort;
+          await context.globalState.update('livegrep.resultSort', message.sort);
+          // The results so far, the next batches follow as they arrive
+          postFileTimes(results);
+          break;
+        case 'setToggles':
+          toggles = message.toggles;
+          showToggles();
+          await saveToggles(context, "webview", toggles);
+          break;
+        case 'changeScope': {
+          const nextScope = await stepScope(scope, workspaceFolders, message.direction);
+          if (!nextScope) {
+            vscode.window.showInformationMessage(`LiveGrep: Already searching the ${message.direction === 1 ? "widest" : "narrowest"} scope`);
+            break;
+          }
+          scope = nextScope;
+          searchDirs = nextScope.dirs;
+          showToggles();
+          // The same query runs again rather than refining the old results
+          resultsGeneration = -1;
+          panel.webview.postMessage({ command: 'scopeChanged' });
+          break;
+        }
+        case 'openFile': {
+          await history.add("grep", message.query);
+          const openAction: OpenAction = message.action || 'current';
+          // Files opened while the panel stays open go beside it
+          await openMatch(message.filePath, message.lineNumber, message.column, openAction, vscode.ViewColumn.Beside);
+          if (autoClose && !keepsPickerOpen(openAction)) {
             panel.dispose();
           }
           break;
-        case 'previewFile':
-          const preview = await getFilePreview(message.filePath, message.lineNumber, message.query, contextLines);
-          panel.webview.postMessage({ command: 'filePreview', preview, filePath: message.filePath });
+        }
+        case 'previewFile': {
+          let replaceEdits: LineEdit[] | undefined;
+          const previewMatch = message.generation === resultsGeneration ? results[message.resultIndex] : undefined;
+          if (message.replacement !== undefined && previewMatch) {
+            try {
+              replaceEdits = computeLineEdits(previewMatch, createResultsReplacer(message.replacement));
+            } catch (error) {
+              // The replace would be refused, say why before it's tried
+              panel.webview.postMessage({ command: 'replaceError', error: error instanceof Error ? error.message : `${error}` });
+            }
+          }
+          const preview = await getFilePreview(message.filePath, message.lineNumber, fileMatchedLines(message), contextLines, replaceEdits);
+          panel.webview.postMessage({
+            command: 'filePreview',
+            ...preview,
+            filePath: message.filePath,
+            resultIndex: message.resultIndex
+          });
           break;
-        case 'ready':
-          // Webview is ready, trigger initial search if query provided
-          if (initialQuery) {
-            panel.webview.postMessage({ command: 'clearResults' });
-            await performWebviewSearchLive(
-              rgPath, 
-              searchDirs, 
-              initialQuery,
-              (result) => {
-                panel.webview.postMessage({ 
-                  command: 'addResult', 
-                  result 
-                });
-              },
-              () => {
-                panel.webview.postMessage({ 
-                  command: 'searchComplete' 
-                });
-              },
-              (error) => {
-                panel.webview.postMessage({ 
-                  command: 'searchError', 
-                  error 
-                });
-              }
+        }
+        case 'previewMore': {
+          const chunk = await getPreviewChunk(message.filePath, message.lineNumber, fileMatchedLines(message), message.before, message.fromLine);
+          // Answer even when the file can't be read any more, so the preview stops waiting
+          panel.webview.postMessage({
+            command: 'previewChunk',
+            ...(chunk ?? { html: '', startLine: 0, endLine: 0, totalLines: 0 }),
+            before: message.before,
+            resultIndex: message.resultIndex
+          });
+          break;
+        }
+        case 'openResultsEditor':
+          if (message.generation === resultsGeneration) {
+            await history.add("grep", typedQuery);
+            await openResultsEditor(resultsQuery.trim(), searchDirs, resultsArgs);
+          }
+          break;
+        case 'saveResults':
+        case 'exportResults': {
+          if (message.generation !== resultsGeneration) {
+            break;
+          }
+          const picked = (message.indices as number[]).flatMap((index) =>
+            results[index] ? [toSavedResult(results[index])] : []
+          );
+          if (message.command === 'exportResults') {
+            await exportResults(picked);
+            break;
+          }
+          await history.add("grep", typedQuery);
+          await savedResults.add(resultsQuery.trim(), searchDirs, resultsArgs, picked);
+          break;
+        }
+        case 'applyReplace':
+          if (message.generation !== resultsGeneration) {
+            panel.webview.postMessage({ command: 'replaceError', error: 'results are out of date, search again' });
+            break;
+          }
+          try {
+            await history.add("grep", typedQuery);
+            const excluded = new Set<number>(message.excluded);
+            const replacer = createResultsReplacer(message.replacement);
+            const summary = await applyReplacements(
+              results.filter((_, index) => !excluded.has(index)),
+              replacer
             );
+            let info = `LiveGrep: Replaced ${summary.replaced} match${summary.replaced === 1 ? '' : 'es'} in ${summary.files} file${summary.files === 1 ? '' : 's'}`;
+            if (summary.skipped > 0) {
+              info += `, skipped ${summary.skipped} changed since the search`;
+            }
+            vscode.window.showInformationMessage(info);
+            panel.webview.postMessage({ command: 'replaceComplete', summary });
+          } catch (error) {
+            panel.webview.postMessage({ command: 'replaceError', error: error instanceof Error ? error.message : `${error}` });
           }
           break;
       }
@@ -733,20 +2309,12 @@ export function createWebviewSearchPanel(
   );
 }
 
-function truncatePath(pwdString: string, maxLength: number = 30): string {
-  if (pwdString.length <= maxLength) {
-    return pwdString;
-  }
-  
-  // Take the last maxLength characters and prepend with "..."
-  const truncated = pwdString.slice(-maxLength);
-  return `...${truncated}`;
-}
-
 export function registerWebviewSearchCommand(
   context: vscode.ExtensionContext,
   rgPath: string,
-  workspaceFolders: string[] | undefined
+  workspaceFolders: string[] | undefined,
+  history: SearchHistory,
+  savedResults: ResultsStore
 ) {
   const getContextLines = () => {
     return vscode.workspace.getConfiguration('livegrep').get<number>('contextLines') || 20;
@@ -755,89 +2323,63 @@ export function registerWebviewSearchCommand(
   const getAutoCloseWebview = () => {
     return vscode.workspace.getConfiguration('livegrep').get<boolean>('autoCloseWebview') ?? true;
   };
-  // Workspace webview search
-  const disposableWebviewSearch = vscode.commands.registerCommand(
-    "livegrep.webviewSearch",
-    async (initialQuery?: string) => {
-      if (!workspaceFolders) {
-        vscode.window.showErrorMessage(
-          "Open a workspace or a folder for LiveGrep: Webview Search to work"
-        );
+  const openPanel = (scope: ResolvedScope, initialQuery?: string) =>
+    createWebviewSearchPanel(context, rgPath, scope, workspaceFolders, history, savedResults, initialQuery, getContextLines(), getAutoCloseWebview());
+  // livegrep.webviewSearch, livegrep.webviewSearchCurrent and livegrep.webviewSearchLevel_0 to _5
+  registerScopedCommands(context, "livegrep.webviewSearch", workspaceFolders, openPanel);
+  // livegrep.webviewSearchOpenEditors, ...GitChanges, ...BranchChanges and ...SelectedFiles
+  registerFileListCommands(context, "livegrep.webviewSearch", workspaceFolders, openPanel);
+
+  // Apply a saved filter preset to the open panel, or open one with it
+  const disposableApplyPreset = vscode.commands.registerCommand(
+    "livegrep.applyFilterPreset",
+    async () => {
+      const preset = await pickFilterPreset();
+      if (!preset) {
         return;
       }
-      const title = initialQuery 
-        ? `LiveGrep: Searching workspace for "${initialQuery}"` 
-        : "LiveGrep: Search Workspace";
-      createWebviewSearchPanel(context, rgPath, workspaceFolders, initialQuery, title, getContextLines(), getAutoCloseWebview());
-    }
-  );
-  context.subscriptions.push(disposableWebviewSearch);
-
-  // Current folder webview search
-  const disposableWebviewSearchCurrent = vscode.commands.registerCommand(
-    "livegrep.webviewSearchCurrent",
-    async (initialQuery?: string) => {
-      if (!vscode.window.activeTextEditor) {
-        vscode.window.showErrorMessage("No active editor.");
+      if (activeSearchPanel) {
+        activeSearchPanel.reveal();
+        activeSearchPanel.webview.postMessage({ command: 'applyFilters', filters: preset });
         return;
       }
-      let pwd = vscode.Uri.parse(
-        vscode.window.activeTextEditor.document.uri.path
-      );
-      let pwdString = pwd.path;
-      if (
-        (await vscode.workspace.fs.stat(pwd)).type === vscode.FileType.File
-      ) {
-        pwdString = path.dirname(pwdString);
+      const scope = await resolveScope({ kind: "workspace" }, workspaceFolders);
+      if (!scope) {
+        return;
       }
-      const title = initialQuery 
-        ? `LiveGrep: Searching "${initialQuery}" in ${truncatePath(pwdString)}` 
-        : `LiveGrep: Search in ${truncatePath(pwdString)}`;
-      createWebviewSearchPanel(context, rgPath, [pwdString], initialQuery, title, getContextLines(), getAutoCloseWebview());
+      createWebviewSearchPanel(context, rgPath, scope, workspaceFolders, history, savedResults, undefined, getContextLines(), getAutoCloseWebview(), preset);
     }
   );
-  context.subscriptions.push(disposableWebviewSearchCurrent);
+  context.subscriptions.push(disposableApplyPreset);
 
-  // Level-based webview search
-  const webviewSearchLevel = async (level: number, initialQuery?: string) => {
-    if (!vscode.window.activeTextEditor) {
-      vscode.window.showErrorMessage("No active editor.");
-      return;
-    }
-    let pwd = vscode.Uri.parse(
-      vscode.window.activeTextEditor.document.uri.path
-    );
-    let pwdString = pwd.path;
-    if (
-      (await vscode.workspace.fs.stat(pwd)).type === vscode.FileType.File
-    ) {
-      pwdString = path.dirname(pwdString);
-    }
-    
-    // Go up 'level' number of directories
-    for (let i = 0; i < level; i++) {
-      pwdString = path.dirname(pwdString);
-    }
-    
-    // Create descriptive title based on level
-    let title: string;
-    if (initialQuery) {
-      title = `LiveGrep: Level ${level} search for "${initialQuery}" in ${truncatePath(pwdString)}`;
-    } else {
-      title = `LiveGrep: Level ${level} search in ${truncatePath(pwdString)}`;
+  // Export the results of the open panel
+  const disposableExport = vscode.commands.registerCommand(
+    "livegrep.exportResults",
+    () => {
+      if (!activeSearchPanel) {
+        vscode.window.showInformationMessage(
+          "LiveGrep: Open a webview search to export its results, or export a set from the LiveGrep Results view"
+        );
+        return;
+      }
+      activeSearchPanel.reveal();
+      activeSearchPanel.webview.postMessage({ command: 'requestExport' });
     }
-    
-    createWebviewSearchPanel(context, rgPath, [pwdString], initialQuery, title, getContextLines(), getAutoCloseWebview());
-  };
+  );
+  context.subscriptions.push(disposableExport);
 
-  // Register webview commands for different levels
-  for (let level = 0; level <= 5; level++) {
-    const disposableWebviewLevel = vscode.commands.registerCommand(
-      `livegrep.webviewSearchLevel_${level}`,
-      async (initialQuery?: string) => {
-        await webviewSearchLevel(level, initialQuery);
+  // Render the results of the open panel into an editor
+  const disposableResultsEditor = vscode.commands.registerCommand(
+    "livegrep.openResultsInEditor",
+    () => {
+      if (!activeSearchPanel) {
+        vscode.window.showInformationMessage(
+          "LiveGrep: Open a webview search to open its results in an editor"
+        );
+        return;
       }
-    );
-    context.subscriptions.push(disposableWebviewLevel);
-  }
+      activeSearchPanel.webview.postMessage({ command: 'requestResultsEditor' });
+    }
+  );
+  context.subscriptions.push(disposableResultsEditor);
 } 
\ No newline at end of file